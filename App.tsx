@@ -1,20 +1,73 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import AnalysisView from './components/AnalysisView';
 import TelemetryPanel from './components/TelemetryPanel';
-import ExperimentTimeline from './components/ExperimentTimeline';
+import ExperimentTimeline, { HistoryExportFormat } from './components/ExperimentTimeline';
 import ExperimentGallery, { SampleExperiment } from './components/ExperimentGallery';
-import { analyzeExperiment } from './services/geminiService';
-import { ThinkingLevel, AnalysisState, TelemetryData, HistoryItem } from './types';
+import SessionBrowser from './components/SessionBrowser';
+import AlarmPanel from './components/AlarmPanel';
+import RoiOverlay from './components/RoiOverlay';
+import AnnotationOverlay from './components/AnnotationOverlay';
+import ChatPanel from './components/ChatPanel';
+import ProtocolPanel from './components/ProtocolPanel';
+import ReferencePanel from './components/ReferencePanel';
+import IncidentPanel from './components/IncidentPanel';
+import CriticalAlertBanner from './components/CriticalAlertBanner';
+import { analyzeExperiment, chatAboutAnalysis, DEFAULT_PROVIDER_SETTINGS, PROVIDERS } from './services/analysisService';
+import { buildChatGrounding } from './services/analysisPrompt';
+import { openReportWindow } from './services/reportService';
+import { historyToCsv, historyToJson, parseHistoryJson, downloadFile, toFileSlug } from './services/historyExport';
+import { createSessionId, listSessions, loadSession, saveSession, putEntries, renameSession, deleteSession } from './services/sessionStore';
+import { evaluateAlarms, INITIAL_ALARM_STATE, AlarmEngineState, TelemetrySample } from './services/alarmEngine';
+import { CUSTOM_EXPERIMENT_ID, loadRuleSet, saveRuleSet } from './services/alarmRules';
+import { connectTelemetryStream, StreamStatus } from './services/telemetryStream';
+import { loadRegions, saveRegions, formatRegionsForPrompt, regionsBounds } from './services/regionsOfInterest';
+import { cropToRegions, createThumbnail, HISTORY_THUMBNAIL_WIDTH } from './services/imageUtils';
+import { computeFrameSignature, decideAnalysis, AnalyzedSnapshot, DEFAULT_CHANGE_DETECTION } from './services/changeDetection';
+import { computeCadence, loadBaseInterval, saveBaseInterval, formatInterval } from './services/monitoringCadence';
+import { createAnalysisQueue } from './services/analysisQueue';
+import { listReferences, saveReferences, deleteReference, createReferenceId, MAX_REFERENCES_SENT } from './services/referenceImages';
+import { REFERENCE_IMAGE_MAX_WIDTH } from './services/experimentLibrary';
+import { loadProtocol, saveProtocol, formatStepLabel, formatStepForPrompt, withCurrentState } from './services/protocols';
+import { MalformedResponseError, errorMessage, toErrorInfo } from './services/analysisErrors';
+import { appendFrame, selectFrameSequence, CapturedFrame, DEFAULT_TEMPORAL_SETTINGS } from './services/frameBuffer';
+import { scanTimes, seekVideo, DEFAULT_SCAN_STEP, SCAN_STEP_OPTIONS } from './services/videoScan';
+import { createIncident, openIncident, isDueForEscalation, escalateIncident, acknowledgeIncident, notifyIncident, startAlarmSound, testAlarmSound, requestNotificationPermission, notificationsSupported, saveOperatorName } from './services/criticalAlerts';
+import { DEFAULT_CHANNEL_IDS, resolveChannels, initialTelemetry, withChannelDefaults, snapshotTelemetry, snapshotChannels, formatTelemetryForPrompt } from './services/telemetryChannels';
+import { ExperimentStatus, ThinkingLevel, AnalysisState, TelemetryData, HistoryItem, ProviderSettings, AlarmRule, TelemetryAlarm, AlarmEvent, TemporalSettings, RegionOfInterest, ChangeDetectionSettings, ChatMessage, ChatTranscript, Protocol, LibraryEntry, ReferenceImage, AnalysisErrorInfo, Incident } from './types';
 
 type InputMode = 'UPLOAD' | 'CAMERA';
 type UploadType = 'IMAGE' | 'VIDEO' | null;
-export type TelemetryMode = 'SIMULATED' | 'MANUAL';
+export type TelemetryMode = 'SIMULATED' | 'MANUAL' | 'STREAM';
+
+interface SessionMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const MAX_ALARM_EVENTS = 50;
+
+const newSessionMeta = (name?: string): SessionMeta => ({
+  id: createSessionId(),
+  name: name || `Session ${new Date().toLocaleString()}`,
+  createdAt: Date.now(),
+});
 
 const App: React.FC = () => {
   const [thinkingLevel, setThinkingLevel] = useState<ThinkingLevel>('HIGH');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [temporalSettings, setTemporalSettings] = useState<TemporalSettings>(DEFAULT_TEMPORAL_SETTINGS);
+  const [baseIntervalMs, setBaseIntervalMs] = useState<number>(() => loadBaseInterval(CUSTOM_EXPERIMENT_ID));
+  const [changeDetection, setChangeDetection] = useState<ChangeDetectionSettings>(DEFAULT_CHANGE_DETECTION);
+  // Auto-monitoring ticks skipped because nothing changed, for the current session
+  const [skippedFrames, setSkippedFrames] = useState(0);
   const [enablePreprocessing] = useState<boolean>(true);
+  // Every entry gets a thumbnail; the full analyzed frame is optional
+  const [keepFullFrames, setKeepFullFrames] = useState<boolean>(true);
   const [context, setContext] = useState<string>("");
+  // Library experiment the run is based on; selects the alarm rule set
+  const [experimentId, setExperimentId] = useState<string>(CUSTOM_EXPERIMENT_ID);
   
   // Upload State
   const [imagePreview, setImagePreview] = useState<string | null>(null);
@@ -31,13 +84,48 @@ const App: React.FC = () => {
   const [zoom, setZoom] = useState<number>(1);
   const [focusMode, setFocusMode] = useState<'continuous' | 'manual'>('continuous');
   const [focusDistance, setFocusDistance] = useState<number>(0);
+
+  // Regions of Interest State (per experiment, normalized to the source frame)
+  const [regions, setRegions] = useState<RegionOfInterest[]>(() => loadRegions(CUSTOM_EXPERIMENT_ID));
+  const [isEditingRegions, setIsEditingRegions] = useState(false);
+  const [mediaSize, setMediaSize] = useState<{ width: number; height: number } | null>(null);
   
   // Gallery State
   const [isGalleryOpen, setIsGalleryOpen] = useState(false);
 
   // Telemetry State
   const [telemetryMode, setTelemetryMode] = useState<TelemetryMode>('SIMULATED');
-  const [telemetry, setTelemetry] = useState<TelemetryData>({ temperature: 24.5, pressure: 101.3 });
+  const [channelIds, setChannelIds] = useState<string[]>(DEFAULT_CHANNEL_IDS);
+  const channels = useMemo(() => resolveChannels(channelIds), [channelIds]);
+  const [telemetry, setTelemetry] = useState<TelemetryData>(() => initialTelemetry());
+  const [streamUrl, setStreamUrl] = useState<string>('ws://localhost:8765');
+  const [streamStatus, setStreamStatus] = useState<{ status: StreamStatus; detail?: string }>({ status: 'CLOSED' });
+  const [lastSampleAt, setLastSampleAt] = useState<number | null>(null);
+
+  // Alarm State (deterministic, evaluated locally on every telemetry update)
+  const [alarmRules, setAlarmRules] = useState<AlarmRule[]>(() => loadRuleSet(CUSTOM_EXPERIMENT_ID));
+  const [activeAlarms, setActiveAlarms] = useState<TelemetryAlarm[]>([]);
+  const [alarmEvents, setAlarmEvents] = useState<AlarmEvent[]>([]);
+
+  // Critical Alert State
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => (notificationsSupported() ? Notification.permission : 'unsupported')
+  );
+
+  // Protocol
+  const [protocol, setProtocol] = useState<Protocol>(() => loadProtocol(CUSTOM_EXPERIMENT_ID));
+  const [currentStep, setCurrentStep] = useState(0);
+
+  // Expected-state reference images for the current experiment
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+
+  // Video Scan State
+  const [scanStep, setScanStep] = useState<number>(DEFAULT_SCAN_STEP);
+  const [scanProgress, setScanProgress] = useState<{ current: number; total: number } | null>(null);
+  const alarmStateRef = useRef<AlarmEngineState>(INITIAL_ALARM_STATE);
+  // The alarm engine's rate window, mirrored into state for the monitoring cadence
+  const [rateSamples, setRateSamples] = useState<TelemetrySample[]>(INITIAL_ALARM_STATE.samples);
 
   // Analysis & History State
   const [analysis, setAnalysis] = useState<AnalysisState>({
@@ -47,6 +135,36 @@ const App: React.FC = () => {
   });
   const [history, setHistory] = useState<HistoryItem[]>([]);
 
+  // Follow-up chat, one transcript per discussed history entry
+  const [chats, setChats] = useState<ChatTranscript[]>([]);
+  // Entry the chat is pinned to; null follows the latest analysis
+  const [chatEntryTimestamp, setChatEntryTimestamp] = useState<number | null>(null);
+  const [isChatSending, setIsChatSending] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  // In-flight chat request, aborted when the session changes
+  const chatControllerRef = useRef<AbortController | null>(null);
+
+  // Session State
+  const [session, setSession] = useState<SessionMeta | null>(null);
+  const [isSessionBrowserOpen, setIsSessionBrowserOpen] = useState(false);
+  // Timestamps of history entries already written to IndexedDB for the active session
+  const persistedEntriesRef = useRef<Set<number>>(new Set());
+  // Latest telemetry for session snapshots, without re-saving on every sensor tick
+  const telemetryRef = useRef<TelemetryData>(telemetry);
+  telemetryRef.current = telemetry;
+  // Active session id, so late chat replies can tell whether it changed
+  const sessionIdRef = useRef<string | undefined>(session?.id);
+  sessionIdRef.current = session?.id;
+
+  const resetChat = () => {
+    chatControllerRef.current?.abort();
+    chatControllerRef.current = null;
+    setChats([]);
+    setChatEntryTimestamp(null);
+    setChatError(null);
+    setIsChatSending(false);
+  };
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Ref for live webcam
@@ -54,23 +172,317 @@ const App: React.FC = () => {
   // Ref for uploaded video file
   const fileVideoRef = useRef<HTMLVideoElement>(null);
   
-  const monitoringIntervalRef = useRef<number | null>(null);
+  // Recent frames from the active video source, for multi-frame analysis
+  const frameBufferRef = useRef<CapturedFrame[]>([]);
+  // What the model last saw, for change detection between monitoring ticks
+  const lastAnalyzedRef = useRef<AnalyzedSnapshot | null>(null);
+  // Owns isLoading: the overlay stays up while any request is running or waiting
+  const [analysisQueue] = useState(() => createAnalysisQueue({
+    onActivity: active => setAnalysis(prev => ({ ...prev, isLoading: active > 0 })),
+  }));
+  const monitoringTimerRef = useRef<number | null>(null);
+  // Set while a video scan runs; aborting it stops the scan
+  const scanControllerRef = useRef<AbortController | null>(null);
+  // Latest handleAnalyze and change-detection inputs, so the monitoring loop and a
+  // running scan see edits made after they started without being restarted
+  const analyzeRef = useRef<typeof handleAnalyze>(null!);
+  const monitorInputsRef = useRef({ regions, channels, changeDetection });
+  monitorInputsRef.current = { regions, channels, changeDetection };
+
+  // Make sure every declared channel has a reading
+  useEffect(() => {
+    setTelemetry(prev => withChannelDefaults(prev, channels));
+  }, [channels]);
 
   // --- Telemetry Simulation ---
   useEffect(() => {
     let interval: any;
     if (telemetryMode === 'SIMULATED') {
       interval = setInterval(() => {
-        setTelemetry(prev => ({
-          temperature: prev.temperature + (Math.random() - 0.5) * 0.2, // Small random drift
-          pressure: prev.pressure + (Math.random() - 0.5) * 0.1
-        }));
+        setTelemetry(prev => {
+          const next = { ...prev };
+          channels.forEach(channel => {
+            // Small random drift
+            next[channel.id] = (prev[channel.id] ?? channel.nominal) + (Math.random() - 0.5) * channel.noise;
+          });
+          return next;
+        });
       }, 1000);
     }
     return () => {
       if (interval) clearInterval(interval);
     };
-  }, [telemetryMode]);
+  }, [telemetryMode, channels]);
+
+  // --- Telemetry Stream ---
+  useEffect(() => {
+    if (telemetryMode !== 'STREAM') return;
+    setLastSampleAt(null);
+    const stream = connectTelemetryStream({
+      url: streamUrl,
+      onSample: (update) => {
+        setTelemetry(prev => ({ ...prev, ...update }));
+        // Arrival time: the stale indicator shows whether the link is alive,
+        // independent of the gateway's clock
+        setLastSampleAt(Date.now());
+      },
+      onStatus: (status, detail) => setStreamStatus({ status, detail }),
+    });
+    return () => stream.close();
+  }, [telemetryMode, streamUrl]);
+
+  // --- Session Persistence ---
+  const startNewSession = (name?: string) => {
+    analysisQueue.cancelAll();
+    persistedEntriesRef.current = new Set();
+    setSession(newSessionMeta(name));
+    setHistory([]);
+    setAnalysis({ isLoading: false, result: null, error: null });
+    setSkippedFrames(0);
+    lastAnalyzedRef.current = null;
+    setCurrentStep(0);
+    resetChat();
+    setIncidents([]);
+  };
+
+  const resumeSession = async (id: string) => {
+    const loaded = await loadSession(id);
+    if (!loaded) return;
+    const { session: record, history: entries } = loaded;
+    analysisQueue.cancelAll();
+    persistedEntriesRef.current = new Set(entries.map(item => item.timestamp));
+    setSession({ id: record.id, name: record.name, createdAt: record.createdAt });
+    setExperimentId(record.experimentId || CUSTOM_EXPERIMENT_ID);
+    setChannelIds(record.channels || DEFAULT_CHANNEL_IDS);
+    setContext(record.context);
+    setThinkingLevel(record.thinkingLevel);
+    setTelemetry(record.telemetry);
+    setHistory(entries);
+    const last = entries[entries.length - 1];
+    setAnalysis({ isLoading: false, result: last ? last.analysis : null, error: null });
+    setSkippedFrames(0);
+    lastAnalyzedRef.current = null;
+    setCurrentStep(record.currentStep ?? 0);
+    resetChat();
+    setChats(record.chats || []);
+    setIncidents(record.incidents || []);
+  };
+
+  const handleRenameSession = async (id: string, name: string) => {
+    if (session && session.id === id) {
+      // The save effect persists the new name for the active session
+      setSession({ ...session, name });
+    } else {
+      await renameSession(id, name);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    if (session && session.id === id) {
+      startNewSession();
+    }
+  };
+
+  const handleExportHistory = (format: HistoryExportFormat) => {
+    const name = session ? session.name : 'session';
+    if (format === 'CSV') {
+      downloadFile(`${toFileSlug(name)}.csv`, historyToCsv(history, channelIds), 'text/csv');
+    } else {
+      downloadFile(`${toFileSlug(name)}.json`, historyToJson(name, context, channelIds, history), 'application/json');
+    }
+  };
+
+  // Imported runs become a new session so the current one is left untouched
+  const handleImportHistory = async (file: File) => {
+    const bundle = parseHistoryJson(await file.text());
+    startNewSession(`Imported: ${bundle.session.name}`);
+    setContext(bundle.session.context);
+    setChannelIds(bundle.session.channels);
+    setHistory(bundle.entries);
+    const last = bundle.entries[bundle.entries.length - 1];
+    setAnalysis({ isLoading: false, result: last ? last.analysis : null, error: null });
+  };
+
+  // Restore the most recent session on load
+  useEffect(() => {
+    listSessions()
+      .then(sessions => {
+        if (sessions.length > 0) return resumeSession(sessions[0].id);
+        setSession(newSessionMeta());
+      })
+      .catch(err => {
+        console.error("Failed to restore session:", err);
+        setSession(newSessionMeta());
+      });
+  }, []);
+
+  // Save the active session whenever its content changes
+  useEffect(() => {
+    if (!session) return;
+    // Don't litter the store with sessions nobody has started yet
+    if (history.length === 0 && !context) return;
+
+    const newEntries = history.filter(item => !persistedEntriesRef.current.has(item.timestamp));
+    const last = history[history.length - 1];
+
+    saveSession({
+      id: session.id,
+      name: session.name,
+      createdAt: session.createdAt,
+      updatedAt: Date.now(),
+      experimentId,
+      channels: channelIds,
+      context,
+      thinkingLevel,
+      telemetry: telemetryRef.current,
+      entryCount: history.length,
+      lastStatus: last ? last.analysis.status : null,
+      chats,
+      currentStep,
+      incidents,
+    })
+      .then(() => putEntries(session.id, newEntries))
+      .then(() => newEntries.forEach(item => persistedEntriesRef.current.add(item.timestamp)))
+      .catch(err => console.error("Failed to save session:", err));
+  }, [session, history, context, thinkingLevel, experimentId, channelIds, chats, currentStep, incidents]);
+
+  // --- Telemetry Alarms ---
+  useEffect(() => {
+    setAlarmRules(loadRuleSet(experimentId));
+  }, [experimentId]);
+
+  // --- Protocol ---
+  useEffect(() => {
+    setProtocol(loadProtocol(experimentId));
+  }, [experimentId]);
+
+  const handleSetProtocol = (next: Protocol) => {
+    setProtocol(next);
+    saveProtocol(experimentId, next);
+    setCurrentStep(step => Math.max(0, Math.min(step, next.steps.length - 1)));
+  };
+
+  // Step as of the latest render or goToStep call, for results that arrive late
+  const currentStepRef = useRef(currentStep);
+  currentStepRef.current = currentStep;
+  // Context text last produced by goToStep; that rewrite isn't an edit that invalidates requests
+  const stepContextRef = useRef<string | null>(null);
+
+  // Moving to a step also rewrites the context's "Current State:" line
+  const goToStep = (index: number) => {
+    if (index < 0 || index >= protocol.steps.length) return;
+    currentStepRef.current = index;
+    setCurrentStep(index);
+    setContext(prev => {
+      const next = withCurrentState(prev, formatStepLabel(protocol, index));
+      stepContextRef.current = next;
+      return next;
+    });
+  };
+
+  // --- Reference Images ---
+  useEffect(() => {
+    let cancelled = false;
+    listReferences(experimentId)
+      .then(loaded => { if (!cancelled) setReferences(loaded); })
+      .catch(err => console.error("Failed to load reference images:", err));
+    return () => { cancelled = true; };
+  }, [experimentId]);
+
+  // --- Regions of Interest ---
+  useEffect(() => {
+    setRegions(loadRegions(experimentId));
+  }, [experimentId]);
+
+  // --- Monitoring Cadence ---
+  useEffect(() => {
+    setBaseIntervalMs(loadBaseInterval(experimentId));
+  }, [experimentId]);
+
+  const handleSetBaseInterval = (ms: number) => {
+    setBaseIntervalMs(ms);
+    saveBaseInterval(experimentId, ms);
+  };
+
+  const cadence = useMemo(
+    () => computeCadence(baseIntervalMs, history, rateSamples, channels),
+    [baseIntervalMs, history, rateSamples, channels]
+  );
+  // The monitoring loop reads this when scheduling each tick, so a cadence
+  // change takes effect without restarting monitoring
+  const cadenceRef = useRef(cadence);
+  cadenceRef.current = cadence;
+
+  const handleSetRegions = (next: RegionOfInterest[]) => {
+    setRegions(next);
+    saveRegions(experimentId, next);
+  };
+
+  const handleVideoMetadata = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    setMediaSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight });
+  };
+
+  const handleSetAlarmRules = (rules: AlarmRule[]) => {
+    setAlarmRules(rules);
+    saveRuleSet(experimentId, rules);
+  };
+
+  useEffect(() => {
+    const { state, events } = evaluateAlarms(alarmRules, telemetry, Date.now(), alarmStateRef.current);
+    alarmStateRef.current = state;
+    setRateSamples(state.samples);
+    setActiveAlarms(Object.values(state.active));
+    if (events.length > 0) {
+      setAlarmEvents(prev => [...prev, ...events].slice(-MAX_ALARM_EVENTS));
+    }
+  }, [telemetry, alarmRules]);
+
+  // --- Critical Alerts ---
+  // At most one incident is open; further CRITICAL results while it is open belong to it
+  const activeIncident = openIncident(incidents);
+
+  const raiseIncident = (entry: HistoryItem) => {
+    setIncidents(prev => (openIncident(prev) ? prev : [...prev, createIncident(entry)]));
+  };
+
+  // Notify again on every escalation; the same tag replaces the earlier notification
+  useEffect(() => {
+    if (activeIncident) notifyIncident(activeIncident);
+  }, [activeIncident?.id, activeIncident?.level]);
+
+  useEffect(() => {
+    if (!activeIncident) return;
+    return startAlarmSound(activeIncident.level);
+  }, [activeIncident?.id, activeIncident?.level]);
+
+  useEffect(() => {
+    if (!activeIncident) return;
+    const timer = setInterval(() => {
+      const now = Date.now();
+      // Returning the same array when nothing is due avoids a re-render and session save
+      setIncidents(prev => (prev.some(incident => isDueForEscalation(incident, now))
+        ? prev.map(incident => (isDueForEscalation(incident, now) ? escalateIncident(incident, now) : incident))
+        : prev));
+    }, 5000);
+    const title = document.title;
+    document.title = `⚠ CRITICAL · ${title}`;
+    return () => {
+      clearInterval(timer);
+      document.title = title;
+    };
+  }, [activeIncident?.id]);
+
+  const handleAcknowledgeIncident = (by: string, comment: string) => {
+    if (!activeIncident) return;
+    saveOperatorName(by);
+    const id = activeIncident.id;
+    setIncidents(prev => prev.map(incident => (incident.id === id ? acknowledgeIncident(incident, by, comment, Date.now()) : incident)));
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
 
   // --- Camera Logic ---
   const startCamera = async () => {
@@ -178,16 +590,15 @@ const App: React.FC = () => {
     return () => stopCamera();
   }, [inputMode]);
 
-  const captureFrame = useCallback((): string | null => {
-    // Determine which video element to capture from
-    let sourceVideo: HTMLVideoElement | null = null;
-
-    if (inputMode === 'CAMERA') {
-      sourceVideo = webcamRef.current;
-    } else if (inputMode === 'UPLOAD' && uploadType === 'VIDEO') {
-      sourceVideo = fileVideoRef.current;
-    }
+  // Determine which video element frames come from
+  const getSourceVideo = (): HTMLVideoElement | null => {
+    if (inputMode === 'CAMERA') return webcamRef.current;
+    if (inputMode === 'UPLOAD' && uploadType === 'VIDEO') return fileVideoRef.current;
+    return null;
+  };
 
+  const captureFrame = useCallback((): string | null => {
+    const sourceVideo = getSourceVideo();
     if (!sourceVideo) return null;
     
     // Check if video is ready to supply data
@@ -212,6 +623,25 @@ const App: React.FC = () => {
     return null;
   }, [isCameraActive, inputMode, uploadType]);
 
+  // --- Frame Buffer ---
+  // Keep a rolling buffer of frames at the configured spacing so each analysis
+  // can send a short sequence instead of a single snapshot
+  useEffect(() => {
+    frameBufferRef.current = [];
+    const isVideoSource = inputMode === 'CAMERA' || (inputMode === 'UPLOAD' && uploadType === 'VIDEO');
+    if (!isVideoSource || temporalSettings.frameCount < 2) return;
+
+    const interval = setInterval(() => {
+      // A scan fills the buffer itself, in video time
+      if (scanControllerRef.current) return;
+      const dataUrl = captureFrame();
+      if (dataUrl) {
+        frameBufferRef.current = appendFrame(frameBufferRef.current, { capturedAt: Date.now(), dataUrl });
+      }
+    }, temporalSettings.frameSpacingMs);
+    return () => clearInterval(interval);
+  }, [captureFrame, videoFileSrc, temporalSettings]);
+
   // --- File Logic ---
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -250,10 +680,12 @@ const App: React.FC = () => {
   const triggerUpload = () => fileInputRef.current?.click();
   
   // --- Gallery Logic ---
-  const handleGallerySelect = (exp: SampleExperiment) => {
+  const handleGallerySelect = (exp: SampleExperiment | LibraryEntry) => {
+    // Loading a new experiment starts a fresh session; the previous run stays in the store
+    startNewSession(exp.title);
+    setExperimentId(exp.id);
+    setChannelIds(exp.channels || DEFAULT_CHANNEL_IDS);
     setContext(exp.context);
-    setAnalysis({ isLoading: false, result: null, error: null });
-    setHistory([]); 
 
     // Static mode
     if (videoFileSrc) URL.revokeObjectURL(videoFileSrc);
@@ -316,67 +748,222 @@ const App: React.FC = () => {
     }
   };
 
-  const handleAnalyze = async (manualImage?: string) => {
-    let imageToAnalyze: string | null = null;
+  // Resolves with the error when the analysis failed, so a scan can decide whether to go on.
+  // Scan frames are recorded at their video time instead of the moment they were analyzed.
+  const handleAnalyze = async (
+    manualImage?: string,
+    scanFrame?: { videoTime: number; timestamp: number }
+  ): Promise<AnalysisErrorInfo | null> => {
+    let frameSequence: CapturedFrame[] = [];
+    const capturedAt = Date.now();
+    const frameTime = scanFrame ? scanFrame.timestamp : capturedAt;
+    const currentTelemetry = telemetryRef.current;
+    const stepIndex = currentStep < protocol.steps.length ? currentStep : null;
+    const protocolStep = stepIndex !== null ? { index: stepIndex, title: protocol.steps[stepIndex].title } : undefined;
+    const referenceFrames = references.slice(-MAX_REFERENCES_SENT).map(reference => ({
+      label: reference.label,
+      base64: reference.dataUrl.split(',')[1],
+    }));
     
     // Determine Source
-    if (inputMode === 'CAMERA') {
-      imageToAnalyze = captureFrame();
-    } else if (inputMode === 'UPLOAD') {
-      if (uploadType === 'VIDEO') {
-        imageToAnalyze = captureFrame();
-      } else {
-        imageToAnalyze = manualImage || imagePreview;
+    if (inputMode === 'CAMERA' || (inputMode === 'UPLOAD' && uploadType === 'VIDEO')) {
+      const dataUrl = captureFrame();
+      if (dataUrl) {
+        const current = { capturedAt: frameTime, dataUrl };
+        frameSequence = selectFrameSequence(frameBufferRef.current, current, temporalSettings);
+        frameBufferRef.current = appendFrame(frameBufferRef.current, current);
       }
+    } else if (inputMode === 'UPLOAD') {
+      const still = manualImage || imagePreview;
+      if (still) frameSequence = [{ capturedAt, dataUrl: still }];
     }
 
-    if (!imageToAnalyze || !context) {
+    if (frameSequence.length === 0 || !context) {
       // Only warn if manual trigger
       if (!isAutoMonitoring) {
         // console.warn("Missing image or context");
       }
-      return;
+      return null;
     }
 
-    setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
+    setAnalysis(prev => ({ ...prev, error: null }));
+    const sourceVideo = getSourceVideo();
+    // Only counts as analyzed once a result is applied; failed or dropped requests don't
+    const snapshot: AnalyzedSnapshot = {
+      signature: sourceVideo ? computeFrameSignature(sourceVideo, regions) : null,
+      telemetry: currentTelemetry,
+      analyzedAt: capturedAt,
+    };
 
-    try {
-      let finalImageDataUrl = imageToAnalyze;
-      if (enablePreprocessing) {
-        finalImageDataUrl = await preprocessImage(imageToAnalyze);
+    // Set once the prompt is built so failed analyses can record it too
+    let prompt: string | undefined;
+
+    // Preparation runs inside the queued job so a cancelled request stops as early as possible
+    const prepareAndAnalyze = async (signal: AbortSignal) => {
+      const preparedFrames = await Promise.all(frameSequence.map(async frame => {
+        let dataUrl = frame.dataUrl;
+        if (regions.length > 0) {
+          dataUrl = await cropToRegions(dataUrl, regions);
+        }
+        if (enablePreprocessing) {
+          dataUrl = await preprocessImage(dataUrl);
+        }
+        dataUrl = await ensureBase64(dataUrl);
+
+        const parts = dataUrl.split(',');
+        if (parts.length !== 2) throw new Error("Invalid image data format.");
+        return { dataUrl, frame: { base64: parts[1], capturedAt: frame.capturedAt } };
+      }));
+      const finalImageDataUrl = preparedFrames[preparedFrames.length - 1].dataUrl;
+
+      let augmentedContext = `${context}\n\n[REAL-TIME TELEMETRY]\n${formatTelemetryForPrompt(currentTelemetry, channels)}\nTimestamp: ${new Date().toISOString()}`;
+      if (regions.length > 0) {
+        augmentedContext += `\n\n[REGIONS OF INTEREST]\n${formatRegionsForPrompt(regions)}`;
+      }
+      if (stepIndex !== null) {
+        augmentedContext += `\n\n[PROTOCOL STEP]\n${formatStepForPrompt(protocol, stepIndex, currentTelemetry, channels)}`;
       }
 
-      finalImageDataUrl = await ensureBase64(finalImageDataUrl);
+      prompt = augmentedContext;
 
-      const augmentedContext = `${context}\n\n[REAL-TIME TELEMETRY]\nTemperature: ${telemetry.temperature.toFixed(2)} °C\nPressure: ${telemetry.pressure.toFixed(2)} kPa\nTimestamp: ${new Date().toISOString()}`;
+      const result = await analyzeExperiment(augmentedContext, preparedFrames.map(p => p.frame), thinkingLevel, providerSettings, signal, referenceFrames);
+      // Annotations are relative to the cropped frame; remember where it sits in the source
+      const frameBounds = regions.length > 0 ? regionsBounds(regions) : undefined;
+      const thumbnail = await createThumbnail(finalImageDataUrl, HISTORY_THUMBNAIL_WIDTH, 0.6);
+      return { result, finalImageDataUrl, thumbnail, frameBounds };
+    };
 
-      const parts = finalImageDataUrl.split(',');
-      if (parts.length !== 2) throw new Error("Invalid image data format.");
-      const base64Data = parts[1];
+    try {
+      const outcome = await analysisQueue.submit(capturedAt, prepareAndAnalyze);
+      // Cancelled or overtaken by a newer capture: leave the current result alone
+      if (outcome.status !== 'DONE') return null;
+      lastAnalyzedRef.current = snapshot;
+      const { result, finalImageDataUrl, thumbnail, frameBounds } = outcome.value;
 
-      const result = await analyzeExperiment(augmentedContext, base64Data, thinkingLevel);
-      
-      setAnalysis({ isLoading: false, result, error: null });
-
-      setHistory(prev => [
-        ...prev, 
-        { 
-          timestamp: Date.now(), 
-          telemetry: { ...telemetry }, 
-          analysis: result 
-        }
-      ]);
+      setAnalysis(prev => ({ ...prev, result, error: null }));
+
+      const entry: HistoryItem = {
+        timestamp: scanFrame ? scanFrame.timestamp : Date.now(),
+        telemetry: snapshotTelemetry(currentTelemetry, channels),
+        analysis: result,
+        frame: keepFullFrames ? finalImageDataUrl : undefined,
+        thumbnail,
+        prompt,
+        frameBounds,
+        protocolStep,
+        videoTime: scanFrame?.videoTime
+      };
+      setHistory(prev => [...prev, entry]);
+      if (result.status === ExperimentStatus.CRITICAL) raiseIncident(entry);
+
+      // Skip if the user moved to another step while this request was in flight
+      if (stepIndex !== null && result.stepComplete && protocol.autoAdvance && stepIndex === currentStepRef.current) {
+        goToStep(stepIndex + 1);
+      }
+      return null;
 
     } catch (err: any) {
       console.error("Analysis Error:", err);
-      setAnalysis({
-        isLoading: false,
-        result: null,
-        error: err.message || "An unexpected error occurred.",
-      });
+      const error = toErrorInfo(err);
+      setAnalysis(prev => ({ ...prev, result: null, error }));
+
+      // Keep unusable responses in the record, distinct from real results
+      if (err instanceof MalformedResponseError) {
+        const frame = frameSequence[frameSequence.length - 1].dataUrl;
+        const thumbnail = await createThumbnail(frame, HISTORY_THUMBNAIL_WIDTH, 0.6);
+        setHistory(prev => [
+          ...prev,
+          {
+            timestamp: scanFrame ? scanFrame.timestamp : Date.now(),
+            telemetry: snapshotTelemetry(currentTelemetry, channels),
+            analysis: {
+              status: ExperimentStatus.INVALID,
+              observation: "Model response could not be used.",
+              deduction: err.message,
+              recommendation: err.suggestion,
+            },
+            frame: keepFullFrames ? frame : undefined,
+            thumbnail,
+            prompt,
+            rawResponse: err.raw,
+            protocolStep,
+            videoTime: scanFrame?.videoTime,
+          }
+        ]);
+      }
+      // Retries are already exhausted inside the provider; the next tick would fail the same way
+      if (!error.retryable) setIsAutoMonitoring(false);
+      return error;
     }
   };
 
+  analyzeRef.current = handleAnalyze;
+
+  // --- Video Scan ---
+  // Seeks through the uploaded video and analyzes one frame per step. The scan
+  // starts a fresh session whose entries are keyed by position in the video.
+  const handleScanVideo = async () => {
+    const video = fileVideoRef.current;
+    if (!video || !context) return;
+    const times = scanTimes(video.duration, scanStep);
+    if (times.length === 0) return;
+
+    const controller = new AbortController();
+    scanControllerRef.current = controller;
+    setIsAutoMonitoring(false);
+    video.pause();
+    startNewSession(`Video scan (every ${scanStep}s)`);
+    frameBufferRef.current = [];
+    const scanStartedAt = Date.now();
+
+    try {
+      for (let i = 0; i < times.length; i++) {
+        if (controller.signal.aborted) break;
+        setScanProgress({ current: i + 1, total: times.length });
+        await seekVideo(video, times[i]);
+        if (controller.signal.aborted) break;
+        const error = await analyzeRef.current(undefined, {
+          videoTime: times[i],
+          timestamp: scanStartedAt + Math.round(times[i] * 1000),
+        });
+        // Transient failures skip the frame; anything else would fail on every frame
+        if (error && !error.retryable) break;
+      }
+    } catch (err: unknown) {
+      console.error("Video scan error:", err);
+      setAnalysis(prev => ({ ...prev, error: toErrorInfo(err) }));
+    } finally {
+      scanControllerRef.current = null;
+      setScanProgress(null);
+    }
+  };
+
+  const cancelScan = () => {
+    scanControllerRef.current?.abort();
+    analysisQueue.cancelAll();
+  };
+
+  // A scan is tied to the file it started on
+  useEffect(() => () => scanControllerRef.current?.abort(), [videoFileSrc, inputMode]);
+
+  // Jumps the uploaded video to the moment a scanned entry was sampled from
+  const handleSelectTimelineEntry = (item: HistoryItem) => {
+    const video = fileVideoRef.current;
+    if (item.videoTime === undefined || !video || scanProgress) return;
+    video.pause();
+    video.currentTime = item.videoTime;
+  };
+
+  // Results computed for a different context or source would be misleading
+  useEffect(() => {
+    if (context === stepContextRef.current) return;
+    analysisQueue.cancelAll();
+  }, [context]);
+
+  useEffect(() => {
+    analysisQueue.cancelAll();
+  }, [inputMode]);
+
   // --- Auto Monitoring Loop ---
   useEffect(() => {
     // Auto monitor works for CAMERA OR UPLOADED VIDEO
@@ -384,23 +971,42 @@ const App: React.FC = () => {
 
     if (isAutoMonitoring && canMonitor) {
       // Analyze immediately on start
-      handleAnalyze(); 
+      analyzeRef.current(); 
 
-      const interval = setInterval(() => {
-        if (!analysis.isLoading) { 
-          handleAnalyze();
+      // Overlapping ticks are safe: the queue caps concurrency and drops stale results
+      const tick = () => {
+        const { regions, channels, changeDetection } = monitorInputsRef.current;
+        if (changeDetection.enabled) {
+          const sourceVideo = getSourceVideo();
+          const decision = decideAnalysis(
+            lastAnalyzedRef.current,
+            sourceVideo ? computeFrameSignature(sourceVideo, regions) : null,
+            telemetryRef.current,
+            channels,
+            changeDetection,
+            Date.now()
+          );
+          if (!decision.analyze) {
+            setSkippedFrames(n => n + 1);
+            return;
+          }
         }
-      }, 5000); // 5 seconds interval
-      monitoringIntervalRef.current = interval as unknown as number;
-    } else {
-      if (monitoringIntervalRef.current) {
-        clearInterval(monitoringIntervalRef.current);
-      }
+        analyzeRef.current();
+      };
+
+      // Re-armed after every tick so the next delay follows the current cadence
+      const schedule = () => {
+        monitoringTimerRef.current = window.setTimeout(() => {
+          tick();
+          schedule();
+        }, cadenceRef.current.intervalMs);
+      };
+      schedule();
     }
     return () => {
-      if (monitoringIntervalRef.current) clearInterval(monitoringIntervalRef.current);
+      if (monitoringTimerRef.current) clearTimeout(monitoringTimerRef.current);
     };
-  }, [isAutoMonitoring, inputMode, uploadType, context, thinkingLevel, enablePreprocessing]); 
+  }, [isAutoMonitoring, inputMode, uploadType]);
 
   const handleLiveCameraClick = () => {
     setInputMode('CAMERA');
@@ -412,8 +1018,126 @@ const App: React.FC = () => {
     setIsAutoMonitoring(false);
   };
 
+  const handleGenerateReport = async () => {
+    try {
+      await openReportWindow({
+        sessionName: session ? session.name : 'Untitled session',
+        context,
+        providerLabel: PROVIDERS[providerSettings.id].label,
+        channels,
+        history,
+      });
+    } catch (err: unknown) {
+      console.error("Report Error:", err);
+      alert(errorMessage(err, "Failed to generate report."));
+    }
+  };
+
+  const hasMedia = inputMode === 'CAMERA' ? isCameraActive : !!(imagePreview || videoFileSrc);
+
   const isMonitoringCapable = inputMode === 'CAMERA' || (inputMode === 'UPLOAD' && uploadType === 'VIDEO');
 
+  // Entry behind the displayed result, which carries the frame bounds for its annotations
+  const latestEntry = history.length > 0 ? history[history.length - 1] : null;
+
+  // --- Follow-up Chat ---
+  const latestValidEntry = [...history].reverse().find(item => item.analysis.status !== ExperimentStatus.INVALID) || null;
+  const stepCompleteSuggested = !!latestValidEntry?.analysis.stepComplete && latestValidEntry.protocolStep?.index === currentStep;
+  const chatEntry = history.find(item => item.timestamp === chatEntryTimestamp) || latestValidEntry;
+  const chatMessages = chatEntry ? chats.find(chat => chat.entryTimestamp === chatEntry.timestamp)?.messages || [] : [];
+
+  const updateTranscript = (entryTimestamp: number, messages: ChatMessage[]) => {
+    setChats(prev => [...prev.filter(chat => chat.entryTimestamp !== entryTimestamp), { entryTimestamp, messages }]);
+  };
+
+  const handleChatSend = async (text: string, frame?: string) => {
+    if (!chatEntry) return;
+    const entry = chatEntry;
+    // Later analyses must not pull the conversation away mid-discussion
+    setChatEntryTimestamp(entry.timestamp);
+    const messages: ChatMessage[] = [...chatMessages, { role: 'user', text, timestamp: Date.now(), frame }];
+    updateTranscript(entry.timestamp, messages);
+    setChatError(null);
+    setIsChatSending(true);
+
+    const controller = new AbortController();
+    chatControllerRef.current = controller;
+    const sessionId = session?.id;
+    // A reply that arrives after the session changed belongs to another transcript
+    const isCurrent = () => chatControllerRef.current === controller && sessionIdRef.current === sessionId;
+
+    try {
+      const reply = await chatAboutAnalysis({
+        // Ground on the context the entry was analyzed with, not the current step's
+        grounding: buildChatGrounding(entry.prompt ?? context, entry.analysis, formatTelemetryForPrompt(entry.telemetry, snapshotChannels(entry.telemetry))),
+        image: (entry.frame || entry.thumbnail)?.split(',')[1],
+        turns: messages.map(message => ({ role: message.role, text: message.text, image: message.frame?.split(',')[1] })),
+        thinkingLevel,
+        signal: controller.signal,
+      }, providerSettings);
+      if (isCurrent()) updateTranscript(entry.timestamp, [...messages, { role: 'model', text: reply, timestamp: Date.now() }]);
+    } catch (err) {
+      if (isCurrent()) setChatError(toErrorInfo(err).message);
+    } finally {
+      if (isCurrent()) {
+        chatControllerRef.current = null;
+        setIsChatSending(false);
+      }
+    }
+  };
+
+  // Current frame of the active source, downscaled
+  const captureSourceFrame = async (maxWidth: number, quality: number): Promise<string | null> => {
+    const frame = captureFrame() || (inputMode === 'UPLOAD' && uploadType === 'IMAGE' ? imagePreview : null);
+    return frame ? createThumbnail(frame, maxWidth, quality) : null;
+  };
+
+  const captureChatFrame = () => captureSourceFrame(640, 0.8);
+
+  // --- Reference Images ---
+  const addReference = async (dataUrl: string) => {
+    const stepTitle = protocol.steps[currentStep]?.title;
+    const reference: ReferenceImage = {
+      id: createReferenceId(),
+      experimentId,
+      label: stepTitle || `Expected state ${references.length + 1}`,
+      // Library images may be remote URLs; the model needs the bytes
+      dataUrl: await ensureBase64(dataUrl),
+      createdAt: Date.now(),
+    };
+    await saveReferences([reference]);
+    setReferences(prev => [...prev, reference]);
+  };
+
+  const handleAddReferenceFile = async (file: File) => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+    await addReference(await createThumbnail(dataUrl, REFERENCE_IMAGE_MAX_WIDTH, 0.85));
+  };
+
+  const handleCaptureReference = async () => {
+    const frame = await captureSourceFrame(REFERENCE_IMAGE_MAX_WIDTH, 0.85);
+    if (!frame) throw new Error("No frame available from the current source.");
+    await addReference(frame);
+  };
+
+  const handleRenameReference = (id: string, label: string) => {
+    const reference = references.find(r => r.id === id);
+    if (!reference) return;
+    const updated = { ...reference, label };
+    setReferences(prev => prev.map(r => (r.id === id ? updated : r)));
+    saveReferences([updated]).catch(err => console.error("Failed to save reference image:", err));
+  };
+
+  const handleDeleteReference = (id: string) => {
+    setReferences(prev => prev.filter(r => r.id !== id));
+    deleteReference(id).catch(err => console.error("Failed to delete reference image:", err));
+  };
+
   return (
     <div className="flex flex-col md:flex-row h-screen bg-slate-50 text-slate-900 font-sans overflow-hidden relative">
       
@@ -424,13 +1148,46 @@ const App: React.FC = () => {
         onSelect={handleGallerySelect}
       />
 
+      {/* Critical Alert Banner */}
+      {activeIncident && (
+        <CriticalAlertBanner
+          incident={activeIncident}
+          entry={history.find(item => item.timestamp === activeIncident.entryTimestamp)}
+          onAcknowledge={handleAcknowledgeIncident}
+        />
+      )}
+
+      {/* Session Browser Modal */}
+      <SessionBrowser
+        isOpen={isSessionBrowserOpen}
+        activeSessionId={session ? session.id : null}
+        onClose={() => setIsSessionBrowserOpen(false)}
+        onNew={() => startNewSession()}
+        onResume={resumeSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+        onImport={handleImportHistory}
+      />
+
       {/* Sidebar */}
       <Sidebar
         context={context}
         setContext={setContext}
         thinkingLevel={thinkingLevel}
         setThinkingLevel={setThinkingLevel}
+        providerSettings={providerSettings}
+        setProviderSettings={setProviderSettings}
+        temporalSettings={temporalSettings}
+        setTemporalSettings={setTemporalSettings}
+        baseIntervalMs={baseIntervalMs}
+        setBaseIntervalMs={handleSetBaseInterval}
+        changeDetection={changeDetection}
+        setChangeDetection={setChangeDetection}
+        keepFullFrames={keepFullFrames}
+        setKeepFullFrames={setKeepFullFrames}
         onOpenGallery={() => setIsGalleryOpen(true)}
+        sessionName={session ? session.name : ''}
+        onOpenSessions={() => setIsSessionBrowserOpen(true)}
       />
 
       {/* Main Content */}
@@ -444,36 +1201,83 @@ const App: React.FC = () => {
               <p className="text-slate-500 text-sm">Real-time visual analysis pipeline</p>
             </div>
             
-            <div className="flex bg-white rounded-lg p-1 border border-slate-200 shadow-sm">
-              <button 
-                onClick={handleFileUploadClick}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                  inputMode === 'UPLOAD' ? 'bg-slate-100 text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                }`}
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleGenerateReport}
+                disabled={history.length === 0}
+                className="px-4 py-2.5 rounded-lg text-sm font-medium border shadow-sm transition-all flex items-center gap-2 bg-white text-slate-700 border-slate-200 hover:border-emerald-300 hover:text-emerald-700 disabled:text-slate-300 disabled:hover:border-slate-200 disabled:cursor-not-allowed"
               >
-                File Upload
-              </button>
-              <button 
-                onClick={handleLiveCameraClick}
-                className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${
-                  inputMode === 'CAMERA' ? 'bg-slate-100 text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
-                }`}
-              >
-                <span>Live Camera</span>
-                {inputMode === 'CAMERA' && <span className="relative flex h-2 w-2">
-                  <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
-                  <span className="relative inline-flex rounded-full h-2 w-2 bg-red-500"></span>
-                </span>}
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
+                Generate Report
               </button>
+
+              <div className="flex bg-white rounded-lg p-1 border border-slate-200 shadow-sm">
+                <button 
+                  onClick={handleFileUploadClick}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                    inputMode === 'UPLOAD' ? 'bg-slate-100 text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  File Upload
+                </button>
+                <button 
+                  onClick={handleLiveCameraClick}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-all flex items-center gap-2 ${
+                    inputMode === 'CAMERA' ? 'bg-slate-100 text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                  }`}
+                >
+                  <span>Live Camera</span>
+                  {inputMode === 'CAMERA' && <span className="relative flex h-2 w-2">
+                    <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+                    <span className="relative inline-flex rounded-full h-2 w-2 bg-red-500"></span>
+                  </span>}
+                </button>
+              </div>
             </div>
           </div>
 
           {/* Telemetry Dashboard */}
           <TelemetryPanel 
             data={telemetry} 
+            channels={channels}
+            setChannelIds={setChannelIds}
             mode={telemetryMode} 
             setMode={setTelemetryMode} 
             setData={setTelemetry} 
+            alarms={activeAlarms}
+            streamUrl={streamUrl}
+            setStreamUrl={setStreamUrl}
+            streamStatus={streamStatus.status}
+            streamDetail={streamStatus.detail}
+            lastSampleAt={lastSampleAt}
+          />
+
+          {/* Rule-based Sensor Alarms */}
+          <AlarmPanel
+            alarms={activeAlarms}
+            events={alarmEvents}
+            rules={alarmRules}
+            setRules={handleSetAlarmRules}
+            channels={channels}
+          />
+
+          {/* Critical Alerts */}
+          <IncidentPanel
+            incidents={incidents}
+            notificationPermission={notificationPermission}
+            onEnableNotifications={handleEnableNotifications}
+            onTestSound={testAlarmSound}
+          />
+
+          {/* Protocol Steps */}
+          <ProtocolPanel
+            protocol={protocol}
+            setProtocol={handleSetProtocol}
+            currentStep={currentStep}
+            onGoToStep={goToStep}
+            stepCompleteSuggested={stepCompleteSuggested}
+            telemetry={telemetry}
+            channels={channels}
           />
 
           {/* Visual Feed Section */}
@@ -489,6 +1293,7 @@ const App: React.FC = () => {
                      autoPlay 
                      playsInline 
                      muted 
+                     onLoadedMetadata={handleVideoMetadata}
                      className="w-full h-full object-cover"
                    />
                    
@@ -565,7 +1370,12 @@ const App: React.FC = () => {
                       // Content State
                       <>
                         {uploadType === 'IMAGE' && imagePreview && (
-                          <img src={imagePreview} alt="Preview" className="w-full h-full object-cover" />
+                          <img
+                            src={imagePreview}
+                            alt="Preview"
+                            onLoad={(e) => setMediaSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                            className="w-full h-full object-cover"
+                          />
                         )}
                         {uploadType === 'VIDEO' && videoFileSrc && (
                           <video 
@@ -574,6 +1384,7 @@ const App: React.FC = () => {
                             controls 
                             playsInline
                             crossOrigin="anonymous"
+                            onLoadedMetadata={handleVideoMetadata}
                             className="w-full h-full object-contain bg-black"
                           />
                         )}
@@ -600,6 +1411,28 @@ const App: React.FC = () => {
                   </>
                 )}
 
+                {/* Regions of Interest */}
+                {hasMedia && (
+                  <RoiOverlay
+                    regions={regions}
+                    onChange={handleSetRegions}
+                    isEditing={isEditingRegions}
+                    mediaSize={mediaSize}
+                    fit={inputMode === 'UPLOAD' && uploadType === 'VIDEO' ? 'contain' : 'cover'}
+                  />
+                )}
+
+                {/* Model annotations for the latest result */}
+                {hasMedia && !isEditingRegions && latestEntry && latestEntry.analysis === analysis.result && (latestEntry.analysis.annotations || []).length > 0 && (
+                  <AnnotationOverlay
+                    annotations={latestEntry.analysis.annotations!}
+                    status={latestEntry.analysis.status}
+                    frameBounds={latestEntry.frameBounds}
+                    mediaSize={mediaSize}
+                    fit={inputMode === 'UPLOAD' && uploadType === 'VIDEO' ? 'contain' : 'cover'}
+                  />
+                )}
+
                 {/* Overlays */}
                 {enablePreprocessing && (
                   <div className="absolute top-3 right-12 bg-emerald-600/90 text-white text-[10px] px-2 py-1 rounded-md font-mono backdrop-blur-md shadow-sm border border-emerald-400/30 z-10">
@@ -608,12 +1441,25 @@ const App: React.FC = () => {
                 )}
                 
                 {isAutoMonitoring && isMonitoringCapable && (
-                   <div className="absolute top-3 left-3 flex items-center gap-2 text-white text-[10px] px-2 py-1 rounded-md font-mono backdrop-blur-md shadow-sm z-10 bg-red-600/90 border border-red-400/30">
-                     <span className="relative flex h-2 w-2">
-                        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-white opacity-75"></span>
-                        <span className="relative inline-flex rounded-full h-2 w-2 bg-white"></span>
-                     </span>
-                     {inputMode === 'CAMERA' ? 'LIVE MONITORING' : 'VIDEO ANALYSIS'}
+                   <div className="absolute top-3 left-3 flex items-center gap-2 z-10">
+                     <div className="flex items-center gap-2 text-white text-[10px] px-2 py-1 rounded-md font-mono backdrop-blur-md shadow-sm bg-red-600/90 border border-red-400/30">
+                       <span className="relative flex h-2 w-2">
+                          <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-white opacity-75"></span>
+                          <span className="relative inline-flex rounded-full h-2 w-2 bg-white"></span>
+                       </span>
+                       {inputMode === 'CAMERA' ? 'LIVE MONITORING' : 'VIDEO ANALYSIS'}
+                       {changeDetection.enabled && skippedFrames > 0 && (
+                         <span className="pl-2 ml-1 border-l border-white/40" title="Monitoring ticks skipped because the frame and telemetry were unchanged">
+                           {skippedFrames} SKIPPED
+                         </span>
+                       )}
+                     </div>
+                     <div
+                       className="text-white text-[10px] px-2 py-1 rounded-md font-mono backdrop-blur-md shadow-sm bg-slate-900/70 border border-white/20"
+                       title="Current auto-monitoring interval and why"
+                     >
+                       EVERY {formatInterval(cadence.intervalMs).toUpperCase()} · {cadence.reason}
+                     </div>
                    </div>
                 )}
 
@@ -625,6 +1471,12 @@ const App: React.FC = () => {
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
                         <span className="text-white text-xs font-bold tracking-wider">REASONING...</span>
+                        <button
+                          onClick={() => analysisQueue.cancelAll()}
+                          className="mt-3 text-[11px] font-semibold text-white/90 px-3 py-1 rounded-md border border-white/40 hover:bg-white/20 transition-colors"
+                        >
+                          Cancel
+                        </button>
                      </div>
                   </div>
                 )}
@@ -634,10 +1486,10 @@ const App: React.FC = () => {
               <div className="grid grid-cols-1 gap-2">
                 <button
                   onClick={() => handleAnalyze()}
-                  disabled={analysis.isLoading || (inputMode === 'UPLOAD' && !imagePreview && !videoFileSrc)}
+                  disabled={analysis.isLoading || !!scanProgress || (inputMode === 'UPLOAD' && !imagePreview && !videoFileSrc)}
                   className={`
                     w-full py-3 rounded-lg font-semibold shadow-sm transition-all flex items-center justify-center gap-2 border
-                    ${analysis.isLoading || (inputMode === 'UPLOAD' && !imagePreview && !videoFileSrc)
+                    ${analysis.isLoading || !!scanProgress || (inputMode === 'UPLOAD' && !imagePreview && !videoFileSrc)
                       ? 'bg-slate-100 text-slate-400 border-slate-200 cursor-not-allowed' 
                       : 'bg-white hover:bg-emerald-50 text-emerald-700 border-slate-200 hover:border-emerald-300'}
                   `}
@@ -649,8 +1501,9 @@ const App: React.FC = () => {
                 {isMonitoringCapable && (
                   <button
                     onClick={() => setIsAutoMonitoring(!isAutoMonitoring)}
+                    disabled={!!scanProgress}
                     className={`
-                      w-full py-3 rounded-lg font-semibold shadow-sm transition-all flex items-center justify-center gap-2 border
+                      w-full py-3 rounded-lg font-semibold shadow-sm transition-all flex items-center justify-center gap-2 border disabled:opacity-50 disabled:cursor-not-allowed
                       ${isAutoMonitoring 
                         ? 'bg-rose-50 text-rose-700 border-rose-200 hover:bg-rose-100' 
                         : 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100'}
@@ -669,6 +1522,57 @@ const App: React.FC = () => {
                     )}
                   </button>
                 )}
+
+                {inputMode === 'UPLOAD' && uploadType === 'VIDEO' && videoFileSrc && (
+                  scanProgress ? (
+                    <div className="w-full p-3 rounded-lg border border-indigo-200 bg-indigo-50">
+                      <div className="flex items-center justify-between text-xs font-semibold text-indigo-700 mb-2">
+                        <span>Scanning frame {scanProgress.current} of {scanProgress.total}</span>
+                        <button onClick={cancelScan} className="px-2 py-0.5 rounded-md border border-indigo-200 hover:bg-white transition-colors">
+                          Cancel
+                        </button>
+                      </div>
+                      <div className="h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(scanProgress.current / scanProgress.total) * 100}%` }} />
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleScanVideo}
+                        disabled={analysis.isLoading || !context}
+                        className="flex-1 py-2 rounded-lg text-sm font-medium shadow-sm transition-all flex items-center justify-center gap-2 border bg-white text-indigo-700 border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 disabled:text-slate-400 disabled:bg-slate-100 disabled:cursor-not-allowed"
+                        title="Analyze the whole video, one frame per step, into a new session"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" /></svg>
+                        Scan Video
+                      </button>
+                      <select
+                        value={scanStep}
+                        onChange={(e) => setScanStep(Number(e.target.value))}
+                        className="bg-white border border-slate-200 rounded-lg px-2 text-sm text-slate-700 focus:border-indigo-400 outline-none"
+                        title="Time between sampled frames"
+                      >
+                        {SCAN_STEP_OPTIONS.map(step => <option key={step} value={step}>every {step}s</option>)}
+                      </select>
+                    </div>
+                  )
+                )}
+
+                {hasMedia && (
+                  <button
+                    onClick={() => setIsEditingRegions(!isEditingRegions)}
+                    className={`
+                      w-full py-2 rounded-lg text-sm font-medium shadow-sm transition-all flex items-center justify-center gap-2 border
+                      ${isEditingRegions
+                        ? 'bg-slate-900 text-white border-slate-900 hover:bg-slate-800'
+                        : 'bg-white text-slate-600 border-slate-200 hover:border-emerald-300 hover:text-emerald-700'}
+                    `}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8V4m0 0h4M4 4l5 5m11-1V4m0 0h-4m4 0l-5 5M4 16v4m0 0h4m-4 0l5-5m11 5l-5-5m5 5v-4m0 4h-4" /></svg>
+                    {isEditingRegions ? 'Done Editing Regions' : `Regions of Interest (${regions.length})`}
+                  </button>
+                )}
               </div>
             </div>
 
@@ -679,13 +1583,36 @@ const App: React.FC = () => {
                   <strong className="font-bold block mb-1 flex items-center gap-2">
                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                      Analysis Error
+                     <span className="text-[10px] font-mono font-bold px-1.5 py-0.5 rounded bg-white/70 border border-rose-200">
+                       {analysis.error.kind.replace('_', ' ')}
+                     </span>
                   </strong>
-                  {analysis.error}
+                  {analysis.error.message}
+                  <p className="mt-2 text-rose-700">
+                    <span className="font-semibold">Suggested fix:</span> {analysis.error.suggestion}
+                  </p>
+                  {!analysis.error.retryable && isMonitoringCapable && (
+                    <p className="mt-1 text-xs text-rose-600">Auto-monitoring is paused until this is resolved.</p>
+                  )}
                 </div>
               )}
 
               {analysis.result ? (
-                <AnalysisView result={analysis.result} />
+                <>
+                  <AnalysisView result={analysis.result} />
+                  {chatEntry && (
+                    <ChatPanel
+                      entry={chatEntry}
+                      messages={chatMessages}
+                      isSending={isChatSending}
+                      error={chatError}
+                      isOutdated={chatEntry !== latestValidEntry}
+                      onSend={handleChatSend}
+                      onDiscussLatest={() => setChatEntryTimestamp(null)}
+                      onCaptureFrame={captureChatFrame}
+                    />
+                  )}
+                </>
               ) : (
                  <div className="h-full min-h-[400px] bg-white rounded-xl border border-slate-200 shadow-sm flex flex-col items-center justify-center text-slate-400">
                     <div className="w-20 h-20 bg-slate-50 rounded-full flex items-center justify-center mb-4">
@@ -700,8 +1627,19 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {/* Expected-state Reference Images */}
+          <ReferencePanel
+            references={references}
+            currentFrame={latestEntry?.frame || latestEntry?.thumbnail || imagePreview}
+            currentLabel={latestEntry?.frame || latestEntry?.thumbnail ? `Analyzed at ${new Date(latestEntry.timestamp).toLocaleTimeString()}` : 'Loaded image'}
+            onAddFile={handleAddReferenceFile}
+            onCaptureCurrent={handleCaptureReference}
+            onRename={handleRenameReference}
+            onDelete={handleDeleteReference}
+          />
+
           {/* New Timeline Section */}
-          {history.length > 0 && <ExperimentTimeline history={history} />}
+          {history.length > 0 && <ExperimentTimeline history={history} channels={channels} onExport={handleExportHistory} onSelectEntry={handleSelectTimelineEntry} />}
         </div>
       </main>
     </div>
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { AlarmEvent, AlarmRule, AlarmRuleKind, ExperimentStatus, TelemetryAlarm, TelemetryChannel } from '../types';
+import { createRuleId } from '../services/alarmRules';
+
+interface AlarmPanelProps {
+  alarms: TelemetryAlarm[];
+  events: AlarmEvent[];
+  rules: AlarmRule[];
+  setRules: (rules: AlarmRule[]) => void;
+  channels: TelemetryChannel[];
+}
+
+const KIND_OPTIONS: { value: AlarmRuleKind; label: string }[] = [
+  { value: 'ABOVE', label: 'Above' },
+  { value: 'BELOW', label: 'Below' },
+  { value: 'RATE', label: 'Rate /min' },
+];
+
+const AlarmPanel: React.FC<AlarmPanelProps> = ({ alarms, events, rules, setRules, channels }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const updateRule = (id: string, patch: Partial<AlarmRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const addRule = () => {
+    setRules([
+      ...rules,
+      {
+        id: createRuleId(),
+        channel: channels[0].id,
+        kind: 'ABOVE',
+        threshold: channels[0].expectedRange.max,
+        hysteresis: 1,
+        severity: ExperimentStatus.WARNING,
+        enabled: true
+      },
+    ]);
+  };
+
+  const removeRule = (id: string) => setRules(rules.filter(rule => rule.id !== id));
+
+  const parseNumber = (value: string) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? 0 : parsed;
+  };
+
+  const inputClass = "w-full bg-white border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-800 focus:border-indigo-500 outline-none";
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+          Sensor Alarms
+          <span className="text-[10px] font-bold normal-case tracking-normal text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded-full">
+            Rule-based · not AI
+          </span>
+        </h3>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white border border-transparent hover:border-slate-200 transition-all"
+        >
+          {isEditing ? 'Done' : `Edit Rules (${rules.filter(r => r.enabled).length})`}
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2">
+        {alarms.length === 0 ? (
+          <p className="text-xs text-slate-400">All telemetry within configured limits.</p>
+        ) : (
+          alarms.map(alarm => (
+            <div
+              key={alarm.ruleId}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border border-dashed text-sm ${
+                alarm.severity === ExperimentStatus.CRITICAL
+                  ? 'bg-rose-50 border-rose-300 text-rose-800'
+                  : 'bg-amber-50 border-amber-300 text-amber-800'
+              }`}
+            >
+              <span className="text-[10px] font-bold font-mono px-1.5 py-0.5 rounded bg-white/70 border border-current">
+                RULE {alarm.severity}
+              </span>
+              <span className="flex-grow">{alarm.message}</span>
+              <span className="text-[10px] font-mono opacity-70">
+                since {new Date(alarm.raisedAt).toLocaleTimeString([], { hour12: false })}
+              </span>
+            </div>
+          ))
+        )}
+
+        {events.length > 0 && (
+          <div className="pt-2 border-t border-slate-100">
+            <p className="text-[10px] font-bold uppercase text-slate-400 tracking-wider mb-1">Recent Events</p>
+            <div className="max-h-24 overflow-y-auto space-y-0.5">
+              {[...events].reverse().map((event, i) => (
+                <div key={i} className="flex gap-2 text-[11px] font-mono text-slate-500">
+                  <span>{new Date(event.timestamp).toLocaleTimeString([], { hour12: false })}</span>
+                  <span className={event.type === 'RAISED' ? 'text-rose-600 font-semibold' : 'text-emerald-600'}>{event.type}</span>
+                  <span className="truncate">{event.alarm.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="px-4 pb-4">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400">
+                <th className="py-1 pr-2 font-semibold">On</th>
+                <th className="py-1 pr-2 font-semibold">Channel</th>
+                <th className="py-1 pr-2 font-semibold">Condition</th>
+                <th className="py-1 pr-2 font-semibold">Threshold</th>
+                <th className="py-1 pr-2 font-semibold">Hysteresis</th>
+                <th className="py-1 pr-2 font-semibold">Severity</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map(rule => (
+                <tr key={rule.id}>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      className="accent-indigo-600"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={rule.channel}
+                      onChange={(e) => updateRule(rule.id, { channel: e.target.value })}
+                      className={inputClass}
+                    >
+                      {channels.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                      {/* Keep rules for channels the experiment no longer declares visible */}
+                      {!channels.some(c => c.id === rule.channel) && (
+                        <option value={rule.channel}>{rule.channel} (inactive)</option>
+                      )}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={rule.kind}
+                      onChange={(e) => updateRule(rule.id, { kind: e.target.value as AlarmRuleKind })}
+                      className={inputClass}
+                    >
+                      {KIND_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={rule.threshold}
+                      onChange={(e) => updateRule(rule.id, { threshold: parseNumber(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={rule.hysteresis}
+                      onChange={(e) => updateRule(rule.id, { hysteresis: Math.max(0, parseNumber(e.target.value)) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={rule.severity}
+                      onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlarmRule['severity'] })}
+                      className={inputClass}
+                    >
+                      <option value={ExperimentStatus.WARNING}>Warning</option>
+                      <option value={ExperimentStatus.CRITICAL}>Critical</option>
+                    </select>
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => removeRule(rule.id)}
+                      className="text-slate-400 hover:text-rose-600 px-1"
+                      title="Remove rule"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-between items-center mt-3">
+            <button
+              onClick={addRule}
+              className="text-xs font-semibold px-3 py-1.5 rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors"
+            >
+              + Add Rule
+            </button>
+            <p className="text-[10px] text-slate-400">Rules are saved per experiment in this browser.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlarmPanel;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { AnalysisResult, ExperimentStatus } from '../types';
+import { AnalysisResult, ExperimentStatus, HazardSeverity } from '../types';
+import { HAZARD_ICONS, HAZARD_LABELS, formatConfidence } from '../services/hazards';
 
 interface AnalysisViewProps {
   result: AnalysisResult;
@@ -50,6 +51,14 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result }) => {
     }
   };
 
+  const hazardStyles = (severity: HazardSeverity) =>
+    severity === 'HIGH' ? 'bg-rose-50 text-rose-700 border-rose-200' :
+    severity === 'MEDIUM' ? 'bg-amber-50 text-amber-700 border-amber-200' :
+    'bg-slate-50 text-slate-600 border-slate-200';
+
+  const hazards = result.hazards || [];
+  const measurements = result.measurements || [];
+
   return (
     <div className="space-y-6 animate-fade-in">
       {/* Status Badge */}
@@ -61,8 +70,88 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result }) => {
           <h2 className={`text-sm uppercase tracking-wider font-bold opacity-70 ${styles.text}`}>Experiment Status</h2>
           <p className={`text-2xl font-bold tracking-tight ${styles.title}`}>{result.status}</p>
         </div>
+        {result.confidence !== undefined && (
+          <div className={`ml-auto w-32 text-right ${styles.text}`}>
+            <h2 className={`text-xs uppercase tracking-wider font-bold opacity-70 ${styles.text}`}>Confidence</h2>
+            <p className={`text-lg font-bold font-mono ${styles.title}`}>{formatConfidence(result.confidence)}</p>
+            <div className="h-1.5 bg-white/70 rounded-full overflow-hidden border border-white">
+              <div className="h-full bg-current opacity-60" style={{ width: `${result.confidence * 100}%` }} />
+            </div>
+          </div>
+        )}
       </div>
 
+      {result.comparison && (
+        <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-800 mb-3 flex items-center gap-2">
+            <span className="text-indigo-500">◐</span> Compared with Expected State
+          </h3>
+          <p className="text-slate-600 leading-relaxed">{result.comparison}</p>
+        </div>
+      )}
+
+      {(hazards.length > 0 || measurements.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-800 mb-3 flex items-center gap-2">
+              <span className="text-rose-500">▲</span> Hazards
+            </h3>
+            {hazards.length === 0 ? (
+              <p className="text-sm text-slate-400">No hazards identified.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {hazards.map((hazard, i) => (
+                  <span
+                    key={i}
+                    title={hazard.description}
+                    className={`inline-flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1 rounded-full border ${hazardStyles(hazard.severity)}`}
+                  >
+                    <span>{HAZARD_ICONS[hazard.category]}</span>
+                    {HAZARD_LABELS[hazard.category]}
+                    <span className="text-[10px] font-bold opacity-70">{hazard.severity}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            {hazards.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs text-slate-600">
+                {hazards.map((hazard, i) => (
+                  <li key={i}><span className="font-semibold">{HAZARD_LABELS[hazard.category]}:</span> {hazard.description}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-xl p-6 border border-slate-200 shadow-sm">
+            <h3 className="text-lg font-semibold text-slate-800 mb-3 flex items-center gap-2">
+              <span className="text-blue-500">▦</span> Measurements
+            </h3>
+            {measurements.length === 0 ? (
+              <p className="text-sm text-slate-400">No measurable properties reported.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400">
+                    <th className="py-1 pr-2 font-semibold">Property</th>
+                    <th className="py-1 pr-2 font-semibold">Value</th>
+                    <th className="py-1 font-semibold">Location</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {measurements.map((m, i) => (
+                    <tr key={i}>
+                      <td className="py-1.5 pr-2 text-slate-500 capitalize">{m.property}</td>
+                      <td className="py-1.5 pr-2 font-mono text-slate-800">{m.value}{m.unit ? ` ${m.unit}` : ''}</td>
+                      <td className="py-1.5 text-xs text-slate-500">{m.location || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Observation & Deduction */}
         <div className="space-y-6">
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Annotation, ExperimentStatus, NormalizedRect } from '../types';
+import { MediaFit, useMediaLayout } from './useMediaLayout';
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+  status: ExperimentStatus;
+  // Part of the media the analyzed frame was cropped to; annotations are relative to it
+  frameBounds?: NormalizedRect;
+  mediaSize: { width: number; height: number } | null;
+  fit: MediaFit;
+}
+
+const FULL_FRAME: NormalizedRect = { x: 0, y: 0, width: 1, height: 1 };
+
+const STATUS_COLORS: Partial<Record<ExperimentStatus, string>> = {
+  [ExperimentStatus.NORMAL]: '#10b981',
+  [ExperimentStatus.WARNING]: '#f59e0b',
+  [ExperimentStatus.CRITICAL]: '#f43f5e',
+};
+
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ annotations, status, frameBounds = FULL_FRAME, mediaSize, fit }) => {
+  const { containerRef, content } = useMediaLayout(mediaSize, fit);
+  const color = STATUS_COLORS[status] || '#94a3b8';
+
+  // Annotation coordinates → pixels in the container
+  const toX = (x: number) => content.left + (frameBounds.x + x * frameBounds.width) * content.width;
+  const toY = (y: number) => content.top + (frameBounds.y + y * frameBounds.height) * content.height;
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 z-10 overflow-hidden pointer-events-none">
+      {annotations.map((annotation, i) => {
+        const isBox = annotation.width !== undefined && annotation.height !== undefined;
+        const left = toX(annotation.x);
+        const top = toY(annotation.y);
+
+        const label = (
+          <div
+            className="absolute -top-5 left-0 text-[10px] font-bold font-mono text-white px-1.5 py-0.5 rounded-t whitespace-nowrap"
+            style={{ backgroundColor: color }}
+          >
+            {annotation.label}
+          </div>
+        );
+
+        return isBox ? (
+          <div
+            key={i}
+            className="absolute border-2 border-dashed rounded-sm"
+            style={{
+              left,
+              top,
+              width: annotation.width! * frameBounds.width * content.width,
+              height: annotation.height! * frameBounds.height * content.height,
+              borderColor: color,
+            }}
+          >
+            {label}
+          </div>
+        ) : (
+          <div key={i} className="absolute" style={{ left, top }}>
+            <span className="absolute -left-2 -top-2 w-4 h-4 rounded-full border-2 animate-ping" style={{ borderColor: color }} />
+            <span className="absolute -left-1.5 -top-1.5 w-3 h-3 rounded-full border-2 border-white" style={{ backgroundColor: color }} />
+            <div className="absolute left-2 top-0">{label}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, HistoryItem } from '../types';
+
+interface ChatPanelProps {
+  entry: HistoryItem;
+  messages: ChatMessage[];
+  isSending: boolean;
+  error: string | null;
+  // True when the conversation is pinned to an entry older than the latest analysis
+  isOutdated: boolean;
+  onSend: (text: string, frame?: string) => void;
+  onDiscussLatest: () => void;
+  // Resolves to a data URL of the current source frame, or null when none is available
+  onCaptureFrame: () => Promise<string | null>;
+}
+
+const SUGGESTIONS = [
+  "Why did you reach this conclusion?",
+  "What happens if I lower the heat?",
+  "Could this be contamination?",
+  "What should I check next?",
+];
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  entry,
+  messages,
+  isSending,
+  error,
+  isOutdated,
+  onSend,
+  onDiscussLatest,
+  onCaptureFrame,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [attachment, setAttachment] = useState<string | null>(null);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages.length, isSending]);
+
+  const send = (text: string) => {
+    const question = text.trim();
+    if (!question || isSending) return;
+    onSend(question, attachment || undefined);
+    setDraft('');
+    setAttachment(null);
+  };
+
+  const attachFrame = async () => {
+    setAttachError(null);
+    const frame = await onCaptureFrame();
+    if (frame) setAttachment(frame);
+    else setAttachError("No frame available from the current source.");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      send(draft);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+        <div>
+          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Ask the Lab Partner</h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            About the {entry.analysis.status} analysis at {new Date(entry.timestamp).toLocaleTimeString()}
+          </p>
+        </div>
+        {isOutdated && (
+          <button
+            onClick={onDiscussLatest}
+            className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 bg-indigo-50 border border-indigo-100 px-2.5 py-1 rounded-md"
+          >
+            Discuss latest analysis
+          </button>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="max-h-80 overflow-y-auto px-4 py-3 space-y-3">
+        {messages.length === 0 && (
+          <div>
+            <p className="text-xs text-slate-500 mb-2">
+              Ask about this result. Answers use the analyzed frame, the experiment context and the telemetry at the time.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map(suggestion => (
+                <button
+                  key={suggestion}
+                  onClick={() => send(suggestion)}
+                  disabled={isSending}
+                  className="text-xs text-slate-600 bg-slate-50 hover:bg-slate-100 border border-slate-200 px-2.5 py-1 rounded-full disabled:opacity-50"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.timestamp} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[85%] rounded-xl px-3 py-2 text-sm whitespace-pre-wrap ${
+                message.role === 'user'
+                  ? 'bg-slate-900 text-white rounded-br-sm'
+                  : 'bg-slate-50 text-slate-700 border border-slate-200 rounded-bl-sm'
+              }`}
+            >
+              {message.frame && (
+                <img src={message.frame} alt="Attached frame" className="mb-2 max-h-32 rounded-md border border-white/20" />
+              )}
+              {message.text}
+            </div>
+          </div>
+        ))}
+
+        {isSending && (
+          <div className="flex justify-start">
+            <div className="rounded-xl px-3 py-2 text-sm bg-slate-50 text-slate-400 border border-slate-200 animate-pulse">
+              Thinking…
+            </div>
+          </div>
+        )}
+      </div>
+
+      {(error || attachError) && (
+        <div className="mx-4 mb-2 text-xs text-rose-700 bg-rose-50 border border-rose-200 rounded-md px-3 py-2">
+          {error || attachError}
+        </div>
+      )}
+
+      <div className="border-t border-slate-100 px-4 py-3">
+        {attachment && (
+          <div className="relative inline-block mb-2">
+            <img src={attachment} alt="Frame to attach" className="h-16 rounded-md border border-slate-200" />
+            <button
+              onClick={() => setAttachment(null)}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-slate-700 text-white text-xs leading-none"
+              title="Remove attachment"
+            >
+              ×
+            </button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <button
+            onClick={attachFrame}
+            disabled={isSending}
+            className="p-2 rounded-lg border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 disabled:opacity-50"
+            title="Attach the current frame"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+          </button>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={2}
+            placeholder="Ask a follow-up question…"
+            className="flex-1 resize-none bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-800 focus:border-indigo-500 outline-none"
+          />
+          <button
+            onClick={() => send(draft)}
+            disabled={isSending || !draft.trim()}
+            className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExperimentContext, Reactant } from '../types';
+import { parseExperimentContext, serializeExperimentContext } from '../services/experimentContext';
+
+interface ContextFormProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const inputClass = "w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+const labelClass = "block text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1";
+
+const ContextForm: React.FC<ContextFormProps> = ({ value, onChange }) => {
+  const [form, setForm] = useState<ExperimentContext>(() => parseExperimentContext(value));
+  // Text this form last produced; anything else arriving in `value` is an outside edit
+  const emittedRef = useRef(value);
+
+  useEffect(() => {
+    if (value !== emittedRef.current) {
+      emittedRef.current = value;
+      setForm(parseExperimentContext(value));
+    }
+  }, [value]);
+
+  const update = (next: ExperimentContext) => {
+    setForm(next);
+    const text = serializeExperimentContext(next);
+    emittedRef.current = text;
+    onChange(text);
+  };
+
+  // Each field is one line of the text form; only notes may span several
+  const setField = (field: Exclude<keyof ExperimentContext, 'reactants'>) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      update({ ...form, [field]: field === 'notes' ? e.target.value : e.target.value.replace(/\r?\n/g, ' ') });
+
+  const updateReactant = (index: number, patch: Partial<Reactant>) => {
+    update({ ...form, reactants: form.reactants.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Experiment</label>
+        <input value={form.title} onChange={setField('title')} className={inputClass} placeholder="e.g. Acid-Base Titration" />
+      </div>
+
+      <div>
+        <label className={labelClass}>Reactants</label>
+        <div className="space-y-1.5">
+          {form.reactants.map((reactant, i) => (
+            <div key={i} className="flex gap-1.5">
+              <input
+                value={reactant.name}
+                onChange={(e) => updateReactant(i, { name: e.target.value })}
+                className={`${inputClass} flex-[2]`}
+                placeholder="Name"
+              />
+              <input
+                value={reactant.concentration || ''}
+                onChange={(e) => updateReactant(i, { concentration: e.target.value || undefined })}
+                className={`${inputClass} flex-1`}
+                placeholder="Conc."
+                title="Concentration, e.g. 0.1M"
+              />
+              <input
+                value={reactant.amount || ''}
+                onChange={(e) => updateReactant(i, { amount: e.target.value || undefined })}
+                className={`${inputClass} flex-1`}
+                placeholder="Amt."
+                title="Amount, e.g. 25 mL"
+              />
+              <button
+                onClick={() => update({ ...form, reactants: form.reactants.filter((_, j) => j !== i) })}
+                className="text-slate-400 hover:text-rose-600 px-1"
+                title="Remove reactant"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setForm({ ...form, reactants: [...form.reactants, { name: '' }] })}
+            className="text-[11px] font-semibold text-slate-500 hover:text-emerald-700"
+          >
+            + Reactant
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Indicator</label>
+        <input value={form.indicator} onChange={setField('indicator')} className={inputClass} placeholder="e.g. Phenolphthalein" />
+      </div>
+      <div>
+        <label className={labelClass}>Conditions</label>
+        <input value={form.conditions} onChange={setField('conditions')} className={inputClass} placeholder="Temperature, stirring, atmosphere…" />
+      </div>
+      <div>
+        <label className={labelClass}>Expected Outcome</label>
+        <textarea value={form.expected} onChange={setField('expected')} rows={2} className={`${inputClass} resize-none`} />
+      </div>
+      <div>
+        <label className={labelClass}>Known Hazards</label>
+        <input value={form.hazards} onChange={setField('hazards')} className={inputClass} placeholder="e.g. Corrosive, flammable vapour" />
+      </div>
+      <div>
+        <label className={labelClass}>Current Phase</label>
+        <textarea value={form.currentState} onChange={setField('currentState')} rows={2} className={`${inputClass} resize-none`} />
+      </div>
+      <div>
+        <label className={labelClass}>Notes</label>
+        <textarea value={form.notes} onChange={setField('notes')} rows={2} className={`${inputClass} resize-none`} />
+      </div>
+    </div>
+  );
+};
+
+export default ContextForm;
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryItem, Incident } from '../types';
+import { ESCALATION_INTERVAL_MS, MAX_ESCALATION_LEVEL, loadOperatorName } from '../services/criticalAlerts';
+
+interface CriticalAlertBannerProps {
+  incident: Incident;
+  // Entry that raised the incident, for its frame
+  entry?: HistoryItem;
+  onAcknowledge: (by: string, comment: string) => void;
+}
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const inputClass = "w-full bg-white border border-rose-200 rounded-lg px-3 py-2 text-sm text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-rose-500/20 focus:border-rose-500 outline-none";
+
+const CriticalAlertBanner: React.FC<CriticalAlertBannerProps> = ({ incident, entry, onAcknowledge }) => {
+  const [name, setName] = useState(loadOperatorName);
+  const [comment, setComment] = useState('');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const raisedAt = incident.events[0].timestamp;
+  const lastEscalation = [...incident.events].reverse().find(e => e.type !== 'ACKNOWLEDGED')!.timestamp;
+  const canAcknowledge = name.trim().length > 0 && comment.trim().length > 0;
+  const image = entry?.frame || entry?.thumbnail;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canAcknowledge) onAcknowledge(name.trim(), comment.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-rose-950/80 backdrop-blur-sm">
+      <div className="absolute inset-0 border-[12px] border-rose-600 animate-pulse pointer-events-none" />
+
+      <form
+        onSubmit={submit}
+        className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in-up"
+      >
+        <div className="bg-rose-600 text-white px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black tracking-wide">CRITICAL</h2>
+            <p className="text-rose-100 text-xs font-mono">
+              Raised {new Date(raisedAt).toLocaleTimeString()} · open for {formatElapsed(now - raisedAt)}
+            </p>
+          </div>
+          <div className="text-right text-xs font-semibold">
+            {incident.level > 0 && <div className="text-sm font-bold">ESCALATED · LEVEL {incident.level}</div>}
+            {incident.level < MAX_ESCALATION_LEVEL && (
+              <div className="text-rose-100">Escalates in {formatElapsed(lastEscalation + ESCALATION_INTERVAL_MS - now)}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 flex gap-4">
+          {image && <img src={image} alt="Frame that raised the alert" className="w-40 h-32 object-cover rounded-lg border border-slate-200 shrink-0" />}
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-slate-900 mb-2">{incident.observation}</p>
+            <p className="text-sm text-rose-800 bg-rose-50 border border-rose-100 rounded-lg px-3 py-2">{incident.recommendation}</p>
+          </div>
+        </div>
+
+        <div className="px-6 pb-6 space-y-3">
+          <p className="text-xs text-slate-500">The alarm keeps sounding until someone acknowledges it. Your name and comment go into the session's incident log.</p>
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name"
+              className={inputClass}
+              autoFocus={!name}
+            />
+            <input
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What was done, e.g. heat removed, fume hood closed"
+              className={`${inputClass} col-span-2`}
+              autoFocus={!!name}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!canAcknowledge}
+            className="w-full py-3 rounded-lg font-bold text-white bg-rose-600 hover:bg-rose-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors"
+          >
+            Acknowledge
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CriticalAlertBanner;
@@ -1,4 +1,23 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LibraryEntry } from '../types';
+import {
+  REFERENCE_IMAGE_MAX_WIDTH,
+  collectTags,
+  copyExperimentSettings,
+  createExperimentId,
+  deleteLibraryEntry,
+  importLibraryEntries,
+  libraryToJson,
+  listLibraryEntries,
+  matchesLibraryQuery,
+  parseLibraryJson,
+  parseTags,
+  saveLibraryEntries,
+} from '../services/experimentLibrary';
+import { CHANNEL_REGISTRY, DEFAULT_CHANNEL_IDS } from '../services/telemetryChannels';
+import { createThumbnail } from '../services/imageUtils';
+import { downloadFile } from '../services/historyExport';
+import { errorMessage } from '../services/analysisErrors';
 
 export interface SampleExperiment {
   id: string;
@@ -7,6 +26,9 @@ export interface SampleExperiment {
   context: string;
   imageUrl: string;
   colorTag: string;
+  // Telemetry channel ids (see CHANNEL_REGISTRY); defaults to temperature and pressure
+  channels?: string[];
+  tags?: string[];
 }
 
 const SAMPLE_EXPERIMENTS: SampleExperiment[] = [
@@ -20,7 +42,9 @@ Indicator: Phenolphthalein
 Expected: Solution should turn from clear to faint pink at pH 8.2.
 Current State: Adding titrant dropwise near endpoint.`,
     imageUrl: 'https://placehold.co/600x400/ffe4e6/be123c?text=Titration+Endpoint',
-    colorTag: 'bg-pink-100 text-pink-800'
+    colorTag: 'bg-pink-100 text-pink-800',
+    channels: ['temperature', 'ph', 'stirrerRpm'],
+    tags: ['acid-base', 'color change', 'endpoint']
   },
   {
     id: 'iodine',
@@ -31,7 +55,9 @@ Reactants: Hydrogen Peroxide, Sulfuric Acid, Potassium Iodide, Sodium Thiosulfat
 Expected: Sudden color change from clear to dark blue-black.
 Current State: Reagents mixed 30 seconds ago. Waiting for color flash.`,
     imageUrl: 'https://placehold.co/600x400/172554/60a5fa?text=Iodine+Clock',
-    colorTag: 'bg-blue-100 text-blue-800'
+    colorTag: 'bg-blue-100 text-blue-800',
+    channels: ['temperature', 'stirrerRpm'],
+    tags: ['kinetics', 'color change']
   },
   {
     id: 'crystallization',
@@ -42,7 +68,9 @@ Conditions: Saturated solution cooling slowly.
 Expected: Formation of blue triclinic crystals.
 Current State: Solution resting for 2 hours. Checking for seed crystals.`,
     imageUrl: 'https://placehold.co/600x400/0ea5e9/e0f2fe?text=CuSO4+Crystals',
-    colorTag: 'bg-cyan-100 text-cyan-800'
+    colorTag: 'bg-cyan-100 text-cyan-800',
+    channels: ['temperature', 'humidity'],
+    tags: ['crystallization', 'slow']
   },
   {
     id: 'combustion',
@@ -53,19 +81,201 @@ Reactants: Magnesium metal, Oxygen
 Expected: Bright white light emission and formation of white MgO powder.
 Current State: Heating ribbon over Bunsen burner.`,
     imageUrl: 'https://placehold.co/600x400/fff7ed/ea580c?text=Mg+Combustion',
-    colorTag: 'bg-orange-100 text-orange-800'
+    colorTag: 'bg-orange-100 text-orange-800',
+    channels: ['temperature', 'pressure', 'flowRate'],
+    tags: ['combustion', 'exothermic']
   }
 ];
 
+
 interface ExperimentGalleryProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelect: (experiment: SampleExperiment) => void;
+  onSelect: (experiment: SampleExperiment | LibraryEntry) => void;
 }
 
+const inputClass = "w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none";
+const labelClass = "block text-xs font-semibold text-slate-600 mb-1";
+
+const newEntry = (): LibraryEntry => ({
+  id: createExperimentId(),
+  title: '',
+  description: '',
+  context: '',
+  imageUrl: '',
+  channels: DEFAULT_CHANNEL_IDS,
+  tags: [],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
 const ExperimentGallery: React.FC<ExperimentGalleryProps> = ({ isOpen, onClose, onSelect }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState<string | null>(null);
+  // Entry being created or edited; the grid is hidden while it is set
+  const [draft, setDraft] = useState<LibraryEntry | null>(null);
+  const [tagText, setTagText] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listLibraryEntries());
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Failed to list library entries:", err);
+      setError(errorMessage(err, "Unable to read the experiment library."));
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    else setDraft(null);
+  }, [isOpen]);
+
+  const tags = useMemo(() => collectTags([...entries, ...SAMPLE_EXPERIMENTS]), [entries]);
+  const visibleEntries = entries.filter(entry => matchesLibraryQuery(entry, query, tag));
+  const visibleSamples = SAMPLE_EXPERIMENTS.filter(exp => matchesLibraryQuery(exp, query, tag));
+
   if (!isOpen) return null;
 
+  const startEdit = (entry: LibraryEntry) => {
+    setDraft(entry);
+    setTagText(entry.tags.join(', '));
+    setError(null);
+  };
+
+  const saveDraft = async () => {
+    if (!draft || !draft.title.trim()) return;
+    try {
+      await saveLibraryEntries([{ ...draft, title: draft.title.trim(), tags: parseTags(tagText), updatedAt: Date.now() }]);
+      setDraft(null);
+      await refresh();
+    } catch (err: unknown) {
+      console.error("Failed to save library entry:", err);
+      setError(errorMessage(err, "Unable to save the entry."));
+    }
+  };
+
+  const duplicate = async (source: SampleExperiment | LibraryEntry) => {
+    const copy: LibraryEntry = {
+      id: createExperimentId(),
+      title: `${source.title} (copy)`,
+      description: source.description,
+      context: source.context,
+      imageUrl: source.imageUrl,
+      channels: source.channels,
+      tags: source.tags || [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    await copyExperimentSettings(source.id, copy.id);
+    await saveLibraryEntries([copy]);
+    await refresh();
+    startEdit(copy);
+  };
+
+  const remove = async (entry: LibraryEntry) => {
+    if (!confirm(`Delete "${entry.title}" from the library?`)) return;
+    await deleteLibraryEntry(entry.id);
+    await refresh();
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    });
+    const imageUrl = await createThumbnail(dataUrl, REFERENCE_IMAGE_MAX_WIDTH, 0.85);
+    setDraft(prev => (prev ? { ...prev, imageUrl } : prev));
+  };
+
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importLibraryEntries(parseLibraryJson(await file.text()));
+      await refresh();
+    } catch (err: unknown) {
+      console.error("Library import failed:", err);
+      setError(errorMessage(err, "Unable to import the library."));
+    }
+  };
+
+  const toggleChannel = (id: string) => {
+    if (!draft) return;
+    const current = draft.channels || DEFAULT_CHANNEL_IDS;
+    const channels = current.includes(id) ? current.filter(c => c !== id) : [...current, id];
+    setDraft({ ...draft, channels: channels.length > 0 ? channels : current });
+  };
+
+  const actionClass = "text-[11px] font-semibold px-2 py-1 rounded-md bg-white/90 text-slate-600 hover:text-slate-900 shadow-sm";
+
+  const renderCard = (exp: SampleExperiment | LibraryEntry, isUserEntry: boolean) => (
+    <div
+      key={exp.id}
+      role="button"
+      tabIndex={0}
+      onClick={() => onSelect(exp)}
+      onKeyDown={(e) => { if (e.key === 'Enter') onSelect(exp); }}
+      className="group cursor-pointer flex flex-col bg-white rounded-xl border border-slate-200 overflow-hidden hover:shadow-lg hover:border-emerald-500/30 transition-all duration-300 text-left"
+    >
+      <div className="relative h-48 w-full overflow-hidden bg-slate-100">
+         {exp.imageUrl ? (
+           <img 
+             src={exp.imageUrl} 
+             alt={exp.title} 
+             className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-500"
+           />
+         ) : (
+           <div className="w-full h-full flex items-center justify-center text-xs text-slate-400">No reference image</div>
+         )}
+         <div className="absolute inset-0 bg-gradient-to-t from-slate-900/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+         <div className="absolute bottom-3 left-3 opacity-0 group-hover:opacity-100 transition-opacity transform translate-y-2 group-hover:translate-y-0">
+            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-500 text-white">
+              Load Case
+            </span>
+         </div>
+         <div className="absolute top-3 right-3 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+           {isUserEntry && <button onClick={() => startEdit(exp as LibraryEntry)} className={actionClass}>Edit</button>}
+           <button onClick={() => duplicate(exp)} className={actionClass}>Duplicate</button>
+           {isUserEntry && <button onClick={() => remove(exp as LibraryEntry)} className={`${actionClass} hover:text-rose-600`}>Delete</button>}
+         </div>
+      </div>
+      
+      <div className="p-5 flex-grow">
+        <div className="flex justify-between items-start mb-2">
+          <h3 className="font-bold text-slate-900 group-hover:text-emerald-700 transition-colors">
+            {exp.title}
+          </h3>
+          <span className={`text-[10px] px-2 py-1 rounded-full font-bold uppercase tracking-wider ${
+            isUserEntry ? 'bg-indigo-100 text-indigo-800' : (exp as SampleExperiment).colorTag
+          }`}>
+            {isUserEntry ? 'My Library' : 'Test Case'}
+          </span>
+        </div>
+        <p className="text-sm text-slate-500 line-clamp-2">
+          {exp.description}
+        </p>
+        {(exp.tags || []).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-3">
+            {exp.tags!.map(t => (
+              <span key={t} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">#{t}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div 
@@ -78,7 +288,7 @@ const ExperimentGallery: React.FC<ExperimentGalleryProps> = ({ isOpen, onClose,
         <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-white sticky top-0 z-10">
           <div>
             <h2 className="text-xl font-bold text-slate-900">Experiment Library</h2>
-            <p className="text-slate-500 text-sm">Select a standardized test case for calibration or demonstration.</p>
+            <p className="text-slate-500 text-sm">Select a standardized test case or one of your own experiments.</p>
           </div>
           <button 
             onClick={onClose}
@@ -88,46 +298,145 @@ const ExperimentGallery: React.FC<ExperimentGalleryProps> = ({ isOpen, onClose,
           </button>
         </div>
 
-        {/* Grid */}
-        <div className="overflow-y-auto p-6 bg-slate-50">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {SAMPLE_EXPERIMENTS.map((exp) => (
-              <button
-                key={exp.id}
-                onClick={() => onSelect(exp)}
-                className="group flex flex-col bg-white rounded-xl border border-slate-200 overflow-hidden hover:shadow-lg hover:border-emerald-500/30 transition-all duration-300 text-left"
-              >
-                <div className="relative h-48 w-full overflow-hidden bg-slate-100">
-                   <img 
-                     src={exp.imageUrl} 
-                     alt={exp.title} 
-                     className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-500"
-                   />
-                   <div className="absolute inset-0 bg-gradient-to-t from-slate-900/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
-                   <div className="absolute bottom-3 left-3 opacity-0 group-hover:opacity-100 transition-opacity transform translate-y-2 group-hover:translate-y-0">
-                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-emerald-500 text-white">
-                        Load Case
-                      </span>
-                   </div>
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-rose-50 border border-rose-200 rounded-lg text-sm text-rose-800">{error}</div>
+        )}
+
+        {draft ? (
+          /* Editor */
+          <div className="overflow-y-auto p-6 bg-slate-50 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-4">
+                <div>
+                  <label className={labelClass}>Title</label>
+                  <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} className={inputClass} />
                 </div>
-                
-                <div className="p-5 flex-grow">
-                  <div className="flex justify-between items-start mb-2">
-                    <h3 className="font-bold text-slate-900 group-hover:text-emerald-700 transition-colors">
-                      {exp.title}
-                    </h3>
-                    <span className={`text-[10px] px-2 py-1 rounded-full font-bold uppercase tracking-wider ${exp.colorTag}`}>
-                      Test Case
-                    </span>
+                <div>
+                  <label className={labelClass}>Description</label>
+                  <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Tags</label>
+                  <input value={tagText} onChange={(e) => setTagText(e.target.value)} className={inputClass} placeholder="Comma-separated, e.g. enzyme, kinetics" />
+                </div>
+                <div>
+                  <label className={labelClass}>Telemetry Channels</label>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.values(CHANNEL_REGISTRY).map(channel => (
+                      <label key={channel.id} className="flex items-center gap-1.5 text-xs text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={(draft.channels || DEFAULT_CHANNEL_IDS).includes(channel.id)}
+                          onChange={() => toggleChannel(channel.id)}
+                          className="accent-emerald-600"
+                        />
+                        {channel.label}
+                      </label>
+                    ))}
                   </div>
-                  <p className="text-sm text-slate-500 line-clamp-2">
-                    {exp.description}
-                  </p>
                 </div>
+              </div>
+              <div>
+                <label className={labelClass}>Reference Image</label>
+                <div className="relative h-48 rounded-lg border border-dashed border-slate-300 bg-white overflow-hidden flex items-center justify-center">
+                  {draft.imageUrl ? (
+                    <img src={draft.imageUrl} alt="Reference" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-xs text-slate-400">No image</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => imageInputRef.current?.click()}
+                  className="mt-2 text-xs font-semibold px-3 py-1.5 rounded-md border border-slate-200 text-slate-600 hover:border-emerald-300 hover:text-emerald-700"
+                >
+                  {draft.imageUrl ? 'Replace Image' : 'Choose Image'}
+                </button>
+                <input type="file" ref={imageInputRef} onChange={handleImageChange} accept="image/*" className="hidden" />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Context</label>
+              <textarea
+                value={draft.context}
+                onChange={(e) => setDraft({ ...draft, context: e.target.value })}
+                rows={6}
+                className={`${inputClass} resize-none font-mono text-xs`}
+                placeholder={"Experiment: …\nReactants: …\nExpected: …\nCurrent State: …"}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="text-sm font-medium px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">
+                Cancel
               </button>
-            ))}
+              <button
+                onClick={saveDraft}
+                disabled={!draft.title.trim()}
+                className="text-sm font-medium px-4 py-2 rounded-lg bg-slate-900 hover:bg-emerald-600 text-white disabled:opacity-50 transition-colors"
+              >
+                Save Entry
+              </button>
+            </div>
           </div>
-        </div>
+        ) : (
+          <>
+            {/* Toolbar */}
+            <div className="px-6 py-3 border-b border-slate-100 bg-white flex flex-wrap items-center gap-2">
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search experiments…"
+                className="flex-grow min-w-[180px] bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm text-slate-800 focus:border-emerald-500 outline-none"
+              />
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="text-sm font-medium px-3 py-1.5 rounded-lg border border-slate-200 text-slate-700 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+              >
+                Import
+              </button>
+              <input type="file" ref={importInputRef} onChange={handleImportChange} accept="application/json,.json" className="hidden" />
+              <button
+                onClick={async () => downloadFile('bioreason-library.json', await libraryToJson(entries), 'application/json')}
+                disabled={entries.length === 0}
+                className="text-sm font-medium px-3 py-1.5 rounded-lg border border-slate-200 text-slate-700 hover:border-emerald-300 hover:text-emerald-700 disabled:opacity-40 transition-colors"
+              >
+                Export
+              </button>
+              <button
+                onClick={() => startEdit(newEntry())}
+                className="text-sm font-medium px-3 py-1.5 rounded-lg bg-slate-900 hover:bg-emerald-600 text-white transition-colors"
+              >
+                New Entry
+              </button>
+              {tags.length > 0 && (
+                <div className="w-full flex flex-wrap gap-1.5 pt-1">
+                  {tags.map(t => (
+                    <button
+                      key={t}
+                      onClick={() => setTag(tag === t ? null : t)}
+                      className={`text-[11px] px-2 py-0.5 rounded-full border transition-colors ${
+                        tag === t ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-slate-200 text-slate-500 hover:border-emerald-300'
+                      }`}
+                    >
+                      #{t}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Grid */}
+            <div className="overflow-y-auto p-6 bg-slate-50">
+              {visibleEntries.length === 0 && visibleSamples.length === 0 ? (
+                <p className="text-center text-sm text-slate-400 py-12">No experiments match the search.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {visibleEntries.map(entry => renderCard(entry, true))}
+                  {visibleSamples.map(exp => renderCard(exp, false))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
         
         {/* Footer */}
         <div className="p-4 border-t border-slate-100 bg-white text-center text-xs text-slate-400">
@@ -138,4 +447,4 @@ const ExperimentGallery: React.FC<ExperimentGalleryProps> = ({ isOpen, onClose,
   );
 };
 
-export default ExperimentGallery;
\ No newline at end of file
+export default ExperimentGallery;
@@ -1,131 +1,119 @@
-import React, { useMemo } from 'react';
-import { HistoryItem, ExperimentStatus } from '../types';
+import React, { useMemo, useState } from 'react';
+import { HistoryItem, ExperimentStatus, HazardCategory, TelemetryChannel } from '../types';
+import { formatChannelValue } from '../services/telemetryChannels';
+import { HAZARD_CATEGORIES, HAZARD_ICONS, HAZARD_LABELS, formatConfidence } from '../services/hazards';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, filterHistory, isFilterActive, measuredProperties } from '../services/historyFilter';
+import { formatVideoTime } from '../services/videoScan';
+import HistoryEntryDetail from './HistoryEntryDetail';
+import TrendChart from './TrendChart';
 
-interface ExperimentTimelineProps {
-  history: HistoryItem[];
-}
-
-const ExperimentTimeline: React.FC<ExperimentTimelineProps> = ({ history }) => {
-  // We only show the last 20 points for the graph to keep it readable
-  const dataWindow = useMemo(() => history.slice(-20), [history]);
-
-  const getStatusValue = (status: ExperimentStatus) => {
-    switch (status) {
-      case ExperimentStatus.NORMAL: return 0;
-      case ExperimentStatus.WARNING: return 1;
-      case ExperimentStatus.CRITICAL: return 2;
-      default: return 0;
-    }
-  };
-
-  const Graph = () => {
-    if (dataWindow.length < 2) {
-      return (
-        <div className="h-48 flex items-center justify-center text-slate-400 text-sm border border-slate-100 rounded-lg bg-slate-50">
-          Not enough data points for trend analysis...
-        </div>
-      );
-    }
+export type HistoryExportFormat = 'CSV' | 'JSON';
 
-    const height = 160;
-    const width = 1000; // SVG coordinate space
-    const padding = 20;
-    
-    // Scales
-    const minTime = dataWindow[0].timestamp;
-    const maxTime = dataWindow[dataWindow.length - 1].timestamp;
-    const timeRange = maxTime - minTime || 1;
+const CONFIDENCE_OPTIONS = [0, 0.5, 0.7, 0.9];
 
-    // Y-Axis for Status (0-2)
-    const yScaleStatus = (val: number) => height - padding - (val / 2) * (height - 2 * padding);
-    
-    // Y-Axis for Temp (Auto-scaled)
-    const temps = dataWindow.map(d => d.telemetry.temperature);
-    const minTemp = Math.min(...temps) - 1;
-    const maxTemp = Math.max(...temps) + 1;
-    const tempRange = maxTemp - minTemp || 1;
-    const yScaleTemp = (val: number) => height - padding - ((val - minTemp) / tempRange) * (height - 2 * padding);
+const selectClass = "bg-white border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-700 focus:border-emerald-500 outline-none disabled:text-slate-300";
 
-    const xScale = (t: number) => padding + ((t - minTime) / timeRange) * (width - 2 * padding);
+interface ExperimentTimelineProps {
+  history: HistoryItem[];
+  channels: TelemetryChannel[];
+  onExport: (format: HistoryExportFormat) => void;
+  // Called when an entry is opened, e.g. to seek the video to a scanned frame
+  onSelectEntry?: (item: HistoryItem) => void;
+}
 
-    // Generate Paths
-    const statusPath = dataWindow.map((d, i) => 
-      `${i === 0 ? 'M' : 'L'} ${xScale(d.timestamp)} ${yScaleStatus(getStatusValue(d.analysis.status))}`
-    ).join(' ');
+const ExperimentTimeline: React.FC<ExperimentTimelineProps> = ({ history, channels, onExport, onSelectEntry }) => {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const filterActive = isFilterActive(filter);
+  const filteredHistory = useMemo(() => filterHistory(history, filter), [history, filter]);
+  const matchingTimestamps = useMemo(() => new Set(filteredHistory.map(item => item.timestamp)), [filteredHistory]);
+  const properties = useMemo(() => measuredProperties(history), [history]);
 
-    const tempPath = dataWindow.map((d, i) => 
-      `${i === 0 ? 'M' : 'L'} ${xScale(d.timestamp)} ${yScaleTemp(d.telemetry.temperature)}`
-    ).join(' ');
+  // Entry shown in the detail view, by timestamp so it survives new entries arriving
+  const [detailTimestamp, setDetailTimestamp] = useState<number | null>(null);
+  const detailIndex = detailTimestamp === null ? -1 : history.findIndex(item => item.timestamp === detailTimestamp);
 
-    return (
-      <div className="w-full overflow-hidden bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
-        <div className="flex justify-between items-center mb-4">
-            <h4 className="text-xs font-bold uppercase text-slate-500 tracking-wider">Live Trends</h4>
-            <div className="flex gap-4 text-xs">
-                <div className="flex items-center gap-1">
-                    <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
-                    <span className="text-slate-600">Safety Score</span>
-                </div>
-                <div className="flex items-center gap-1">
-                    <span className="w-2 h-2 rounded-full bg-blue-500"></span>
-                    <span className="text-slate-600">Temperature</span>
-                </div>
-            </div>
-        </div>
-        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40 overflow-visible">
-          {/* Grid lines */}
-          <line x1={padding} y1={yScaleStatus(0)} x2={width-padding} y2={yScaleStatus(0)} stroke="#e2e8f0" strokeDasharray="4 4" />
-          <line x1={padding} y1={yScaleStatus(1)} x2={width-padding} y2={yScaleStatus(1)} stroke="#e2e8f0" strokeDasharray="4 4" />
-          <line x1={padding} y1={yScaleStatus(2)} x2={width-padding} y2={yScaleStatus(2)} stroke="#e2e8f0" strokeDasharray="4 4" />
-
-          {/* Paths */}
-          <path d={tempPath} fill="none" stroke="#3b82f6" strokeWidth="2" strokeOpacity="0.5" />
-          <path d={statusPath} fill="none" stroke="#10b981" strokeWidth="3" />
-
-          {/* Points */}
-          {dataWindow.map((d, i) => (
-            <g key={i}>
-              <circle cx={xScale(d.timestamp)} cy={yScaleStatus(getStatusValue(d.analysis.status))} r="4" fill={
-                d.analysis.status === 'CRITICAL' ? '#f43f5e' : 
-                d.analysis.status === 'WARNING' ? '#f59e0b' : '#10b981'
-              } stroke="white" strokeWidth="2" />
-            </g>
-          ))}
-        </svg>
-      </div>
-    );
+  const openEntry = (item: HistoryItem) => {
+    setDetailTimestamp(item.timestamp);
+    onSelectEntry?.(item);
   };
 
   const Logs = () => (
     <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden flex flex-col h-[280px]">
-      <div className="p-3 border-b border-slate-100 bg-slate-50/50">
+      <div className="p-3 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
         <h4 className="text-xs font-bold uppercase text-slate-500 tracking-wider">Analysis Logs</h4>
+        {filterActive && (
+          <span className="text-[10px] font-mono text-slate-400">{filteredHistory.length} of {history.length}</span>
+        )}
       </div>
       <div className="overflow-y-auto p-0 scroll-smooth">
         {history.length === 0 ? (
            <div className="p-8 text-center text-slate-400 text-sm">No analysis recorded yet.</div>
+        ) : filteredHistory.length === 0 ? (
+           <div className="p-8 text-center text-slate-400 text-sm">No entries match the filter.</div>
         ) : (
           <div className="divide-y divide-slate-50">
-            {[...history].reverse().map((item) => (
-              <div key={item.timestamp} className="p-3 hover:bg-slate-50 transition-colors flex gap-3 items-start group">
-                <div className="min-w-[60px] text-[10px] font-mono text-slate-400 pt-1">
-                  {new Date(item.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            {[...filteredHistory].reverse().map((item) => (
+              <div
+                key={item.timestamp}
+                onClick={() => openEntry(item)}
+                className="p-3 hover:bg-slate-50 transition-colors flex gap-3 items-start group cursor-pointer"
+              >
+                <div className="min-w-[60px] flex flex-col gap-1">
+                  {item.thumbnail || item.frame ? (
+                    <img src={item.thumbnail || item.frame} alt="" className="w-14 h-10 object-cover rounded border border-slate-200 bg-slate-100" />
+                  ) : (
+                    <div className="w-14 h-10 rounded border border-dashed border-slate-200" />
+                  )}
+                  {item.videoTime !== undefined ? (
+                    <span className="text-[10px] font-mono text-indigo-500" title="Position in the scanned video">
+                      ▶ {formatVideoTime(item.videoTime)}
+                    </span>
+                  ) : (
+                    <span className="text-[10px] font-mono text-slate-400">
+                      {new Date(item.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                    </span>
+                  )}
                 </div>
                 <div className="flex-grow">
                    <div className="flex items-center gap-2 mb-1">
                       <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${
                         item.analysis.status === 'CRITICAL' ? 'bg-rose-50 text-rose-700 border-rose-100' :
                         item.analysis.status === 'WARNING' ? 'bg-amber-50 text-amber-700 border-amber-100' :
+                        item.analysis.status === 'INVALID' ? 'bg-slate-100 text-slate-500 border-slate-200' :
                         'bg-emerald-50 text-emerald-700 border-emerald-100'
                       }`}>
                         {item.analysis.status}
                       </span>
-                      <span className="text-xs text-slate-500 font-mono">
-                        {item.telemetry.temperature.toFixed(1)}°C
+                      {item.protocolStep && (
+                        <span className="text-[10px] font-semibold text-indigo-600" title={item.protocolStep.title}>
+                          Step {item.protocolStep.index + 1}{item.analysis.stepComplete ? ' ✓' : ''}
+                        </span>
+                      )}
+                      {item.analysis.confidence !== undefined && (
+                        <span className="text-[10px] font-mono text-slate-400" title="Model confidence">
+                          {formatConfidence(item.analysis.confidence)}
+                        </span>
+                      )}
+                      {(item.analysis.hazards || []).map((hazard, i) => (
+                        <span key={i} title={`${HAZARD_LABELS[hazard.category]} (${hazard.severity}): ${hazard.description}`} className="text-xs">
+                          {HAZARD_ICONS[hazard.category]}
+                        </span>
+                      ))}
+                      <span className="text-xs text-slate-500 font-mono truncate">
+                        {channels
+                          .filter(channel => item.telemetry[channel.id] !== undefined)
+                          .map(channel => `${formatChannelValue(channel, item.telemetry[channel.id])}${channel.unit}`)
+                          .join(' · ')}
                       </span>
                    </div>
                    <p className="text-xs text-slate-800 font-medium mb-0.5">{item.analysis.observation}</p>
                    <p className="text-[11px] text-slate-500 leading-tight">{item.analysis.deduction}</p>
+                   {item.rawResponse && (
+                     <details className="mt-1" onClick={(e) => e.stopPropagation()}>
+                       <summary className="text-[10px] font-semibold text-slate-400 cursor-pointer hover:text-slate-600">Raw response</summary>
+                       <pre className="mt-1 p-2 bg-slate-50 border border-slate-100 rounded text-[10px] text-slate-600 whitespace-pre-wrap break-all max-h-32 overflow-y-auto">{item.rawResponse}</pre>
+                     </details>
+                   )}
                 </div>
               </div>
             ))}
@@ -136,13 +124,94 @@ const ExperimentTimeline: React.FC<ExperimentTimelineProps> = ({ history }) => {
   );
 
   return (
-    <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fade-in">
-       <div className="lg:col-span-2">
-         <Graph />
-       </div>
-       <div className="lg:col-span-1">
-         <Logs />
-       </div>
+    <div className="mt-8 animate-fade-in">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Experiment Timeline</h3>
+        <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
+          <button
+            onClick={() => onExport('CSV')}
+            className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white transition-all"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => onExport('JSON')}
+            className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white transition-all"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+        <span className="font-semibold text-slate-500">Filter</span>
+        <select
+          value={filter.status}
+          onChange={(e) => setFilter({ ...filter, status: e.target.value as HistoryFilter['status'] })}
+          className={selectClass}
+        >
+          <option value="ALL">All statuses</option>
+          {Object.values(ExperimentStatus).map(status => <option key={status} value={status}>{status}</option>)}
+        </select>
+        <select
+          value={filter.hazard}
+          onChange={(e) => setFilter({ ...filter, hazard: e.target.value as HazardCategory | 'ALL' })}
+          className={selectClass}
+        >
+          <option value="ALL">Any hazard</option>
+          {HAZARD_CATEGORIES.map(category => (
+            <option key={category} value={category}>{HAZARD_ICONS[category]} {HAZARD_LABELS[category]}</option>
+          ))}
+        </select>
+        <select
+          value={filter.minConfidence}
+          onChange={(e) => setFilter({ ...filter, minConfidence: Number(e.target.value) })}
+          className={selectClass}
+        >
+          {CONFIDENCE_OPTIONS.map(value => (
+            <option key={value} value={value}>{value === 0 ? 'Any confidence' : `Confidence ≥ ${formatConfidence(value)}`}</option>
+          ))}
+        </select>
+        <select
+          value={filter.property}
+          onChange={(e) => setFilter({ ...filter, property: e.target.value })}
+          className={selectClass}
+          disabled={properties.length === 0}
+        >
+          <option value="ALL">Any measurement</option>
+          {properties.map(property => <option key={property} value={property}>Has {property}</option>)}
+        </select>
+        {filterActive && (
+          <button
+            onClick={() => setFilter(EMPTY_HISTORY_FILTER)}
+            className="font-semibold px-2 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+         <div className="lg:col-span-2">
+           <TrendChart
+             history={history}
+             channels={channels}
+             isDimmed={(item) => filterActive && !matchingTimestamps.has(item.timestamp)}
+             onSelectEntry={openEntry}
+           />
+         </div>
+         <div className="lg:col-span-1">
+           <Logs />
+         </div>
+      </div>
+
+      {detailIndex !== -1 && (
+        <HistoryEntryDetail
+          item={history[detailIndex]}
+          index={detailIndex}
+          total={history.length}
+          onNavigate={(index) => openEntry(history[index])}
+          onClose={() => setDetailTimestamp(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryItem } from '../types';
+import { formatChannelValue, getChannel, isOutOfRange } from '../services/telemetryChannels';
+import { formatVideoTime } from '../services/videoScan';
+import AnalysisView from './AnalysisView';
+import AnnotationOverlay from './AnnotationOverlay';
+
+interface HistoryEntryDetailProps {
+  item: HistoryItem;
+  // Position in the full history, for the header and the prev/next buttons
+  index: number;
+  total: number;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const HistoryEntryDetail: React.FC<HistoryEntryDetailProps> = ({ item, index, total, onNavigate, onClose }) => {
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(true);
+  const image = item.frame || item.thumbnail;
+  const annotations = item.analysis.annotations || [];
+
+  useEffect(() => setImageSize(null), [image]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && index > 0) onNavigate(index - 1);
+      if (e.key === 'ArrowRight' && index < total - 1) onNavigate(index + 1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, total, onNavigate, onClose]);
+
+  const navButton = (target: number, label: string, path: string) => (
+    <button
+      onClick={() => onNavigate(target)}
+      disabled={target < 0 || target >= total}
+      className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600 disabled:opacity-30 disabled:hover:bg-transparent"
+      title={label}
+    >
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={path} /></svg>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col animate-fade-in-up">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-white">
+          <div>
+            <h2 className="text-lg font-bold text-slate-900">Entry {index + 1} of {total}</h2>
+            <p className="text-slate-500 text-xs font-mono">
+              {new Date(item.timestamp).toLocaleString()}
+              {item.videoTime !== undefined && ` · video ${formatVideoTime(item.videoTime)}`}
+              {item.protocolStep && ` · Step ${item.protocolStep.index + 1}: ${item.protocolStep.title}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-1">
+            {navButton(index - 1, 'Previous entry', 'M15 19l-7-7 7-7')}
+            {navButton(index + 1, 'Next entry', 'M9 5l7 7-7 7')}
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            {/* Frame */}
+            <div>
+              <div className="relative aspect-[4/3] bg-black rounded-lg overflow-hidden flex items-center justify-center">
+                {image ? (
+                  <>
+                    <img
+                      src={image}
+                      alt="Analyzed frame"
+                      onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                      className="w-full h-full object-contain"
+                    />
+                    {/* The stored frame is already cropped, so annotations cover all of it */}
+                    {showAnnotations && annotations.length > 0 && (
+                      <AnnotationOverlay annotations={annotations} status={item.analysis.status} mediaSize={imageSize} fit="contain" />
+                    )}
+                  </>
+                ) : (
+                  <span className="text-xs text-slate-500">No frame stored for this entry</span>
+                )}
+              </div>
+              <div className="mt-1 flex justify-between items-center text-[11px] text-slate-500">
+                <span>{item.frame ? 'Frame sent to the model' : item.thumbnail ? 'Thumbnail only' : ''}</span>
+                {annotations.length > 0 && (
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={showAnnotations} onChange={(e) => setShowAnnotations(e.target.checked)} className="accent-emerald-600" />
+                    Annotations
+                  </label>
+                )}
+              </div>
+            </div>
+
+            {/* Telemetry snapshot */}
+            <div className="rounded-lg border border-slate-200 overflow-hidden">
+              <h4 className="px-3 py-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-50 border-b border-slate-100">Telemetry</h4>
+              {Object.keys(item.telemetry).length === 0 ? (
+                <p className="px-3 py-2 text-xs text-slate-400">No telemetry recorded.</p>
+              ) : (
+                <dl className="divide-y divide-slate-50">
+                  {Object.entries(item.telemetry).map(([id, value]) => {
+                    const channel = getChannel(id);
+                    return (
+                      <div key={id} className="px-3 py-1.5 flex justify-between text-xs">
+                        <dt className="text-slate-500">{channel.label}</dt>
+                        <dd className={`font-mono ${isOutOfRange(channel, value) ? 'text-rose-600 font-semibold' : 'text-slate-800'}`}>
+                          {formatChannelValue(channel, value)}{channel.unit && ` ${channel.unit}`}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-3 space-y-4 min-w-0">
+            <AnalysisView result={item.analysis} />
+
+            {item.prompt && (
+              <details className="rounded-lg border border-slate-200">
+                <summary className="px-3 py-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 cursor-pointer hover:text-slate-600">Prompt Context</summary>
+                <pre className="px-3 pb-3 text-[11px] text-slate-600 whitespace-pre-wrap break-words max-h-64 overflow-y-auto">{item.prompt}</pre>
+              </details>
+            )}
+            {item.rawResponse && (
+              <details className="rounded-lg border border-slate-200">
+                <summary className="px-3 py-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 cursor-pointer hover:text-slate-600">Raw Response</summary>
+                <pre className="px-3 pb-3 text-[11px] text-slate-600 whitespace-pre-wrap break-all max-h-64 overflow-y-auto">{item.rawResponse}</pre>
+              </details>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryEntryDetail;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Incident, IncidentEvent } from '../types';
+import { isAcknowledged } from '../services/criticalAlerts';
+
+interface IncidentPanelProps {
+  incidents: Incident[];
+  notificationPermission: NotificationPermission | 'unsupported';
+  onEnableNotifications: () => void;
+  onTestSound: () => void;
+}
+
+const describeEvent = (event: IncidentEvent): string => {
+  switch (event.type) {
+    case 'RAISED': return 'Raised by a CRITICAL result';
+    case 'ESCALATED': return `Escalated to level ${event.level}`;
+    case 'ACKNOWLEDGED': return `Acknowledged by ${event.by}: ${event.comment}`;
+  }
+};
+
+const IncidentPanel: React.FC<IncidentPanelProps> = ({ incidents, notificationPermission, onEnableNotifications, onTestSound }) => (
+  <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+    <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+      <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide">Critical Alerts</h3>
+      <div className="flex gap-2">
+        {notificationPermission === 'granted' ? (
+          <span className="text-[10px] font-bold text-emerald-700 bg-emerald-50 border border-emerald-100 px-2 py-1 rounded-full">Notifications on</span>
+        ) : notificationPermission === 'unsupported' ? (
+          <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-full">No browser notifications</span>
+        ) : (
+          <button
+            onClick={onEnableNotifications}
+            disabled={notificationPermission === 'denied'}
+            className="text-xs font-semibold px-3 py-1 rounded-md text-rose-700 bg-rose-50 hover:bg-rose-100 disabled:text-slate-400 disabled:bg-slate-100 transition-colors"
+            title={notificationPermission === 'denied' ? 'Notifications are blocked in the browser settings' : undefined}
+          >
+            {notificationPermission === 'denied' ? 'Notifications blocked' : 'Enable Notifications'}
+          </button>
+        )}
+        <button
+          onClick={onTestSound}
+          className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white border border-transparent hover:border-slate-200 transition-all"
+        >
+          Test Sound
+        </button>
+      </div>
+    </div>
+
+    <div className="p-4">
+      {incidents.length === 0 ? (
+        <p className="text-xs text-slate-400">No critical incidents in this session.</p>
+      ) : (
+        <ul className="space-y-3">
+          {[...incidents].reverse().map(incident => (
+            <li key={incident.id} className="text-xs">
+              <div className="flex items-center gap-2 mb-1">
+                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${
+                  isAcknowledged(incident)
+                    ? 'bg-slate-50 text-slate-500 border-slate-200'
+                    : 'bg-rose-50 text-rose-700 border-rose-200'
+                }`}>
+                  {isAcknowledged(incident) ? 'ACKNOWLEDGED' : 'OPEN'}
+                </span>
+                <span className="font-medium text-slate-800 truncate">{incident.observation}</span>
+              </div>
+              <ol className="pl-3 border-l-2 border-slate-100 space-y-0.5">
+                {incident.events.map((event, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className="font-mono text-slate-400 shrink-0">{new Date(event.timestamp).toLocaleTimeString([], { hour12: false })}</span>
+                    <span className={event.type === 'ESCALATED' ? 'text-rose-700' : 'text-slate-600'}>{describeEvent(event)}</span>
+                  </li>
+                ))}
+              </ol>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
+export default IncidentPanel;
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { Protocol, ProtocolStep, StepTelemetryLimit, TelemetryChannel, TelemetryData } from '../types';
+import { createStep, describeStepLimits, stepLimitViolations } from '../services/protocols';
+
+interface ProtocolPanelProps {
+  protocol: Protocol;
+  setProtocol: (protocol: Protocol) => void;
+  currentStep: number;
+  onGoToStep: (index: number) => void;
+  // The latest analysis of the current step judged it complete
+  stepCompleteSuggested: boolean;
+  telemetry: TelemetryData;
+  channels: TelemetryChannel[];
+}
+
+const ProtocolPanel: React.FC<ProtocolPanelProps> = ({
+  protocol,
+  setProtocol,
+  currentStep,
+  onGoToStep,
+  stepCompleteSuggested,
+  telemetry,
+  channels,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { steps } = protocol;
+  const step = steps[currentStep];
+  const isLastStep = currentStep >= steps.length - 1;
+
+  const updateStep = (id: string, patch: Partial<ProtocolStep>) => {
+    setProtocol({ ...protocol, steps: steps.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    setProtocol({ ...protocol, steps: next });
+  };
+
+  const removeStep = (id: string) => setProtocol({ ...protocol, steps: steps.filter(s => s.id !== id) });
+
+  const addStep = () => setProtocol({ ...protocol, steps: [...steps, createStep()] });
+
+  const updateLimit = (s: ProtocolStep, index: number, patch: Partial<StepTelemetryLimit>) => {
+    updateStep(s.id, { telemetryLimits: s.telemetryLimits.map((limit, i) => (i === index ? { ...limit, ...patch } : limit)) });
+  };
+
+  // Empty input clears the bound
+  const parseBound = (value: string): number | undefined => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  const inputClass = "w-full bg-white border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-800 focus:border-indigo-500 outline-none";
+
+  const violations = step ? stepLimitViolations(step, telemetry, channels) : [];
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+          Protocol
+          {step && (
+            <span className="text-[10px] font-bold normal-case tracking-normal text-slate-600 bg-white border border-slate-200 px-2 py-0.5 rounded-full">
+              Step {currentStep + 1} of {steps.length}
+            </span>
+          )}
+        </h3>
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white border border-transparent hover:border-slate-200 transition-all"
+        >
+          {isEditing ? 'Done' : steps.length > 0 ? 'Edit Steps' : 'Add Steps'}
+        </button>
+      </div>
+
+      {steps.length === 0 && !isEditing && (
+        <p className="p-4 text-xs text-slate-400">
+          No protocol for this experiment. Add steps to track phases and let the model judge when each one is complete.
+        </p>
+      )}
+
+      {step && !isEditing && (
+        <div className="p-4">
+          {/* Step strip */}
+          <div className="flex gap-1 mb-4">
+            {steps.map((s, i) => (
+              <button
+                key={s.id}
+                onClick={() => onGoToStep(i)}
+                title={s.title}
+                className={`flex-1 h-1.5 rounded-full transition-colors ${
+                  i < currentStep ? 'bg-emerald-500' : i === currentStep ? 'bg-indigo-500' : 'bg-slate-200 hover:bg-slate-300'
+                }`}
+              />
+            ))}
+          </div>
+
+          <h4 className="text-sm font-bold text-slate-800 mb-2">{step.title || 'Untitled step'}</h4>
+          <dl className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+            <div>
+              <dt className="font-semibold text-slate-400 uppercase tracking-wider text-[10px]">Expected</dt>
+              <dd className="text-slate-700">{step.expectedObservation || '—'}</dd>
+            </div>
+            <div>
+              <dt className="font-semibold text-slate-400 uppercase tracking-wider text-[10px]">Complete when</dt>
+              <dd className="text-slate-700">{step.successCriteria || '—'}</dd>
+            </div>
+            <div>
+              <dt className="font-semibold text-slate-400 uppercase tracking-wider text-[10px]">Telemetry limits</dt>
+              <dd className="text-slate-700">{describeStepLimits(step, channels).join(' · ') || 'None'}</dd>
+            </div>
+          </dl>
+
+          {violations.length > 0 && (
+            <div className="mt-3 px-3 py-2 rounded-lg border border-dashed border-amber-300 bg-amber-50 text-xs text-amber-800">
+              {violations.join('; ')}.
+            </div>
+          )}
+
+          {stepCompleteSuggested && (
+            <div className="mt-3 flex items-center justify-between gap-3 px-3 py-2 rounded-lg border border-emerald-200 bg-emerald-50 text-xs text-emerald-800">
+              <span>
+                {isLastStep
+                  ? 'The latest analysis judges the final step complete.'
+                  : 'The latest analysis judges this step complete.'}
+              </span>
+              {!isLastStep && (
+                <button
+                  onClick={() => onGoToStep(currentStep + 1)}
+                  className="font-semibold px-3 py-1 rounded-md bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+                >
+                  Advance
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center mt-4">
+            <button
+              onClick={() => onGoToStep(currentStep - 1)}
+              disabled={currentStep === 0}
+              className="text-xs font-semibold px-3 py-1.5 rounded-md text-slate-500 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+            >
+              ← Previous
+            </button>
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <input
+                type="checkbox"
+                checked={protocol.autoAdvance}
+                onChange={(e) => setProtocol({ ...protocol, autoAdvance: e.target.checked })}
+                className="accent-indigo-600"
+              />
+              Advance automatically
+            </label>
+            <button
+              onClick={() => onGoToStep(currentStep + 1)}
+              disabled={isLastStep}
+              className="text-xs font-semibold px-3 py-1.5 rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-40 transition-colors"
+            >
+              Next →
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="p-4 space-y-3">
+          {steps.map((s, index) => (
+            <div key={s.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold font-mono text-slate-400">{index + 1}</span>
+                <input
+                  value={s.title}
+                  onChange={(e) => updateStep(s.id, { title: e.target.value })}
+                  placeholder="Step title"
+                  className={inputClass}
+                />
+                <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30 px-1" title="Move up">↑</button>
+                <button onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30 px-1" title="Move down">↓</button>
+                <button onClick={() => removeStep(s.id)} className="text-slate-400 hover:text-rose-600 px-1" title="Remove step">✕</button>
+              </div>
+              <textarea
+                value={s.expectedObservation}
+                onChange={(e) => updateStep(s.id, { expectedObservation: e.target.value })}
+                placeholder="Expected observation"
+                rows={2}
+                className={`${inputClass} resize-none`}
+              />
+              <textarea
+                value={s.successCriteria}
+                onChange={(e) => updateStep(s.id, { successCriteria: e.target.value })}
+                placeholder="Success criteria (when is this step complete?)"
+                rows={2}
+                className={`${inputClass} resize-none`}
+              />
+              {s.telemetryLimits.map((limit, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <select
+                    value={limit.channel}
+                    onChange={(e) => updateLimit(s, i, { channel: e.target.value })}
+                    className={inputClass}
+                  >
+                    {channels.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    {!channels.some(c => c.id === limit.channel) && (
+                      <option value={limit.channel}>{limit.channel} (inactive)</option>
+                    )}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={limit.min ?? ''}
+                    onChange={(e) => updateLimit(s, i, { min: parseBound(e.target.value) })}
+                    placeholder="Min"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={limit.max ?? ''}
+                    onChange={(e) => updateLimit(s, i, { max: parseBound(e.target.value) })}
+                    placeholder="Max"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => updateStep(s.id, { telemetryLimits: s.telemetryLimits.filter((_, j) => j !== i) })}
+                    className="text-slate-400 hover:text-rose-600 px-1"
+                    title="Remove limit"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateStep(s.id, { telemetryLimits: [...s.telemetryLimits, { channel: channels[0].id }] })}
+                className="text-[11px] font-semibold text-slate-500 hover:text-indigo-700"
+              >
+                + Telemetry limit
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addStep}
+            className="text-xs font-semibold px-3 py-1.5 rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors"
+          >
+            + Add Step
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolPanel;
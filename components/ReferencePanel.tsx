@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReferenceImage } from '../types';
+import { MAX_REFERENCES_SENT } from '../services/referenceImages';
+import { errorMessage } from '../services/analysisErrors';
+
+interface ReferencePanelProps {
+  references: ReferenceImage[];
+  // Frame shown against the reference: the latest analyzed frame, or the loaded image
+  currentFrame: string | null;
+  currentLabel: string;
+  onAddFile: (file: File) => Promise<void>;
+  onCaptureCurrent: () => Promise<void>;
+  onRename: (id: string, label: string) => void;
+  onDelete: (id: string) => void;
+}
+
+type CompareMode = 'SIDE_BY_SIDE' | 'SLIDER';
+
+const ReferencePanel: React.FC<ReferencePanelProps> = ({
+  references,
+  currentFrame,
+  currentLabel,
+  onAddFile,
+  onCaptureCurrent,
+  onRename,
+  onDelete,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<CompareMode>('SIDE_BY_SIDE');
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep a valid selection as references come and go
+  useEffect(() => {
+    if (!references.some(r => r.id === selectedId)) {
+      setSelectedId(references.length > 0 ? references[references.length - 1].id : null);
+    }
+  }, [references, selectedId]);
+
+  const selected = references.find(r => r.id === selectedId) || null;
+  // Only the most recent references are sent with each analysis
+  const sentIds = new Set(references.slice(-MAX_REFERENCES_SENT).map(r => r.id));
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      console.error("Reference image error:", err);
+      setError(errorMessage(err, "Unable to add the reference image."));
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onAddFile(file));
+  };
+
+  const modeButton = (value: CompareMode, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      className={`text-xs font-semibold px-3 py-1 rounded-md transition-all ${
+        mode === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const frameBox = (src: string | null, label: string, placeholder: string) => (
+    <figure className="flex-1 min-w-0">
+      <div className="aspect-[4/3] bg-black rounded-lg overflow-hidden flex items-center justify-center">
+        {src ? <img src={src} alt={label} className="w-full h-full object-contain" /> : <span className="text-xs text-slate-500">{placeholder}</span>}
+      </div>
+      <figcaption className="mt-1 text-[11px] font-semibold text-slate-500 truncate">{label}</figcaption>
+    </figure>
+  );
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100 bg-slate-50/50">
+        <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+          Expected State
+          {references.length > 0 && (
+            <span className="text-[10px] font-bold normal-case tracking-normal text-indigo-700 bg-indigo-50 border border-indigo-100 px-2 py-0.5 rounded-full">
+              {Math.min(references.length, MAX_REFERENCES_SENT)} sent with each analysis
+            </span>
+          )}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(onCaptureCurrent)}
+            className="text-xs font-semibold px-3 py-1 rounded-md text-slate-500 hover:text-slate-700 hover:bg-white border border-transparent hover:border-slate-200 transition-all"
+          >
+            Use Current Frame
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs font-semibold px-3 py-1 rounded-md text-indigo-700 bg-indigo-50 hover:bg-indigo-100 transition-colors"
+          >
+            + Add Image
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 text-xs text-rose-700 bg-rose-50 border border-rose-200 rounded-md px-3 py-2">{error}</div>
+      )}
+
+      {references.length === 0 ? (
+        <p className="p-4 text-xs text-slate-400">
+          Attach images of what the experiment should look like. They are sent with the live frame so the model compares current against expected.
+        </p>
+      ) : (
+        <div className="p-4">
+          {/* Reference strip */}
+          <div className="flex gap-3 overflow-x-auto pb-2 mb-4">
+            {references.map(reference => (
+              <div
+                key={reference.id}
+                className={`shrink-0 w-36 rounded-lg border p-1.5 cursor-pointer transition-colors ${
+                  reference.id === selectedId ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+                onClick={() => setSelectedId(reference.id)}
+              >
+                <div className="relative">
+                  <img src={reference.dataUrl} alt={reference.label} className="w-full h-20 object-cover rounded" />
+                  {!sentIds.has(reference.id) && (
+                    <span className="absolute top-1 left-1 text-[9px] font-bold px-1 rounded bg-white/90 text-slate-500">NOT SENT</span>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDelete(reference.id); }}
+                    className="absolute top-1 right-1 w-5 h-5 rounded-full bg-slate-700/80 text-white text-xs leading-none hover:bg-rose-600"
+                    title="Remove reference"
+                  >
+                    ×
+                  </button>
+                </div>
+                <input
+                  value={reference.label}
+                  onChange={(e) => onRename(reference.id, e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  placeholder="Label"
+                  className="mt-1 w-full bg-transparent text-[11px] text-slate-700 outline-none border-b border-transparent focus:border-indigo-300"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Comparison */}
+          <div className="flex justify-end mb-2">
+            <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
+              {modeButton('SIDE_BY_SIDE', 'Side by Side')}
+              {modeButton('SLIDER', 'Slider')}
+            </div>
+          </div>
+
+          {mode === 'SIDE_BY_SIDE' || !currentFrame || !selected ? (
+            <div className="flex gap-3">
+              {frameBox(selected ? selected.dataUrl : null, `Expected: ${selected?.label || 'reference'}`, 'No reference selected')}
+              {frameBox(currentFrame, currentLabel, 'No frame analyzed yet')}
+            </div>
+          ) : (
+            <div>
+              <div className="relative aspect-[4/3] bg-black rounded-lg overflow-hidden select-none">
+                <img src={currentFrame} alt={currentLabel} className="absolute inset-0 w-full h-full object-contain" />
+                <img
+                  src={selected.dataUrl}
+                  alt={selected.label}
+                  className="absolute inset-0 w-full h-full object-contain"
+                  style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}
+                />
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${sliderPosition}%` }} />
+                <span className="absolute top-2 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-black/60 text-white">EXPECTED</span>
+                <span className="absolute top-2 right-2 text-[10px] font-bold px-1.5 py-0.5 rounded bg-black/60 text-white">CURRENT</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={sliderPosition}
+                onChange={(e) => setSliderPosition(Number(e.target.value))}
+                className="w-full mt-2 accent-indigo-600"
+              />
+              <p className="text-[11px] text-slate-500">
+                Left: {selected.label || 'reference'} · Right: {currentLabel}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferencePanel;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { RegionOfInterest } from '../types';
+import { createRegionId, ROI_COLORS } from '../services/regionsOfInterest';
+import { MediaFit, useMediaLayout } from './useMediaLayout';
+
+interface RoiOverlayProps {
+  regions: RegionOfInterest[];
+  onChange: (regions: RegionOfInterest[]) => void;
+  isEditing: boolean;
+  // Intrinsic size of the image/video frame; regions are relative to it
+  mediaSize: { width: number; height: number } | null;
+  // How the media element is fitted into the container (CSS object-fit)
+  fit: MediaFit;
+}
+
+// Regions smaller than this (normalized) are treated as accidental clicks
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (v: number) => Math.min(1, Math.max(0, v));
+
+const RoiOverlay: React.FC<RoiOverlayProps> = ({ regions, onChange, isEditing, mediaSize, fit }) => {
+  const { containerRef, content } = useMediaLayout(mediaSize, fit);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Omit<RegionOfInterest, 'id' | 'name'> | null>(null);
+
+  const toNormalized = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left - content.left) / (content.width || 1)),
+      y: clamp((e.clientY - rect.top - content.top) / (content.height || 1)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isEditing) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toNormalized(e);
+    setDragStart(point);
+    setDraft({ x: point.x, y: point.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toNormalized(e);
+    setDraft({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    const finished = draft;
+    setDragStart(null);
+    setDraft(null);
+    if (!finished || finished.width < MIN_REGION_SIZE || finished.height < MIN_REGION_SIZE) return;
+
+    const name = prompt("Name this region (e.g. flask, burette tip):", `Region ${regions.length + 1}`);
+    if (!name || !name.trim()) return;
+    onChange([...regions, { id: createRegionId(), name: name.trim(), ...finished }]);
+  };
+
+  const boxStyle = (r: Omit<RegionOfInterest, 'id' | 'name'>, color: string): React.CSSProperties => ({
+    left: content.left + r.x * content.width,
+    top: content.top + r.y * content.height,
+    width: r.width * content.width,
+    height: r.height * content.height,
+    borderColor: color,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className={`absolute inset-0 z-10 overflow-hidden ${isEditing ? 'cursor-crosshair bg-black/20' : 'pointer-events-none'}`}
+    >
+      {regions.map((region, i) => {
+        const color = ROI_COLORS[i % ROI_COLORS.length];
+        return (
+          <div
+            key={region.id}
+            className={`absolute border-2 rounded-sm ${isEditing ? '' : 'opacity-70'}`}
+            style={boxStyle(region, color)}
+          >
+            <div
+              className="absolute -top-5 left-0 flex items-center gap-1 text-[10px] font-bold font-mono text-white px-1.5 py-0.5 rounded-t whitespace-nowrap"
+              style={{ backgroundColor: color }}
+            >
+              {region.name}
+              {isEditing && (
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => onChange(regions.filter(r => r.id !== region.id))}
+                  className="ml-1 hover:text-black/60"
+                  title="Remove region"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {draft && (
+        <div className="absolute border-2 border-dashed border-white rounded-sm" style={boxStyle(draft, '#fff')} />
+      )}
+
+      {isEditing && regions.length === 0 && !draft && (
+        <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+          <span className="text-white text-xs font-semibold bg-black/60 px-3 py-1.5 rounded-md">Drag to mark a region</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoiOverlay;
@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SessionRecord, ExperimentStatus } from '../types';
+import { listSessions } from '../services/sessionStore';
+import { errorMessage } from '../services/analysisErrors';
+
+interface SessionBrowserProps {
+  isOpen: boolean;
+  activeSessionId: string | null;
+  onClose: () => void;
+  onNew: () => void;
+  onResume: (id: string) => Promise<void>;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+}
+
+const SessionBrowser: React.FC<SessionBrowserProps> = ({
+  isOpen,
+  activeSessionId,
+  onClose,
+  onNew,
+  onResume,
+  onRename,
+  onDelete,
+  onImport
+}) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err: unknown) {
+      console.error("Failed to list sessions:", err);
+      setError(errorMessage(err, "Unable to read saved sessions."));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const startRename = (session: SessionRecord) => {
+    setEditingId(session.id);
+    setEditName(session.name);
+  };
+
+  const commitRename = async () => {
+    if (editingId && editName.trim()) {
+      try {
+        await onRename(editingId, editName.trim());
+        await refresh();
+      } catch (err: unknown) {
+        console.error("Failed to rename session:", err);
+        setError(errorMessage(err, "Unable to rename the session."));
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SessionRecord) => {
+    if (!confirm(`Delete session "${session.name}"? This cannot be undone.`)) return;
+    try {
+      await onDelete(session.id);
+      await refresh();
+    } catch (err: unknown) {
+      console.error("Failed to delete session:", err);
+      setError(errorMessage(err, "Unable to delete the session."));
+    }
+  };
+
+  const handleResume = async (id: string) => {
+    try {
+      await onResume(id);
+      onClose();
+    } catch (err: unknown) {
+      console.error("Failed to resume session:", err);
+      setError(errorMessage(err, "Unable to open the session."));
+    }
+  };
+
+  const handleImportChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await onImport(file);
+      onClose();
+    } catch (err: unknown) {
+      console.error("Failed to import history:", err);
+      setError(errorMessage(err, "Unable to import the selected file."));
+    }
+  };
+
+  const statusStyles = (status: ExperimentStatus | null) =>
+    status === ExperimentStatus.CRITICAL ? 'bg-rose-50 text-rose-700 border-rose-100' :
+    status === ExperimentStatus.WARNING ? 'bg-amber-50 text-amber-700 border-amber-100' :
+    status === ExperimentStatus.NORMAL ? 'bg-emerald-50 text-emerald-700 border-emerald-100' :
+    'bg-slate-50 text-slate-500 border-slate-100';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col animate-fade-in-up">
+        {/* Header */}
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-white sticky top-0 z-10">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Experiment Sessions</h2>
+            <p className="text-slate-500 text-sm">Resume, rename, delete or import recorded runs.</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="text-sm font-medium px-3 py-2 rounded-lg border border-slate-200 text-slate-700 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+            >
+              Import JSON
+            </button>
+            <input
+              type="file"
+              ref={importInputRef}
+              onChange={handleImportChange}
+              accept="application/json,.json"
+              className="hidden"
+            />
+            <button
+              onClick={() => { onNew(); onClose(); }}
+              className="text-sm font-medium px-3 py-2 rounded-lg bg-slate-900 hover:bg-emerald-600 text-white transition-colors"
+            >
+              New Session
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        {/* List */}
+        <div className="overflow-y-auto bg-slate-50 flex-grow">
+          {error && (
+            <div className="m-4 p-3 bg-rose-50 border border-rose-200 rounded-lg text-rose-800 text-sm">{error}</div>
+          )}
+          {!isLoading && sessions.length === 0 && !error && (
+            <div className="p-12 text-center text-slate-400 text-sm">No saved sessions yet.</div>
+          )}
+          <div className="divide-y divide-slate-100">
+            {sessions.map(session => (
+              <div key={session.id} className="p-4 bg-white flex items-center gap-4 hover:bg-slate-50 transition-colors">
+                <div className="flex-grow min-w-0">
+                  {editingId === session.id ? (
+                    <input
+                      autoFocus
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full text-sm font-semibold text-slate-900 border-b border-emerald-500 outline-none bg-transparent"
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-sm font-semibold text-slate-900 truncate">{session.name}</h3>
+                      {session.id === activeSessionId && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-emerald-600 text-white">Active</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-3 mt-1 text-xs text-slate-500">
+                    <span className="font-mono">{new Date(session.updatedAt).toLocaleString()}</span>
+                    <span>{session.entryCount} {session.entryCount === 1 ? 'entry' : 'entries'}</span>
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded border ${statusStyles(session.lastStatus)}`}>
+                      {session.lastStatus || 'NO DATA'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleResume(session.id)}
+                    disabled={session.id === activeSessionId}
+                    className="text-xs font-semibold px-3 py-1.5 rounded-md text-emerald-700 hover:bg-emerald-50 disabled:text-slate-300 disabled:hover:bg-transparent transition-colors"
+                  >
+                    Resume
+                  </button>
+                  <button
+                    onClick={() => startRename(session)}
+                    className="text-xs font-semibold px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100 transition-colors"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session)}
+                    className="text-xs font-semibold px-3 py-1.5 rounded-md text-rose-600 hover:bg-rose-50 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 bg-white text-center text-xs text-slate-400">
+          Sessions are stored locally in this browser.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionBrowser;
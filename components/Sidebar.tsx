@@ -1,21 +1,61 @@
-import React from 'react';
-import { ThinkingLevel } from '../types';
+import React, { useState } from 'react';
+import { ThinkingLevel, ProviderSettings, ProviderId, TemporalSettings, ChangeDetectionSettings } from '../types';
+import { PROVIDERS } from '../services/analysisService';
+import { CHANGE_SENSITIVITY_PRESETS } from '../services/changeDetection';
+import { BASE_INTERVAL_OPTIONS, formatInterval } from '../services/monitoringCadence';
+import ContextForm from './ContextForm';
 
 interface SidebarProps {
   context: string;
   setContext: (val: string) => void;
   thinkingLevel: ThinkingLevel;
   setThinkingLevel: (val: ThinkingLevel) => void;
+  providerSettings: ProviderSettings;
+  setProviderSettings: (val: ProviderSettings) => void;
+  temporalSettings: TemporalSettings;
+  setTemporalSettings: (val: TemporalSettings) => void;
+  baseIntervalMs: number;
+  setBaseIntervalMs: (val: number) => void;
+  changeDetection: ChangeDetectionSettings;
+  setChangeDetection: (val: ChangeDetectionSettings) => void;
+  keepFullFrames: boolean;
+  setKeepFullFrames: (val: boolean) => void;
   onOpenGallery: () => void;
+  sessionName: string;
+  onOpenSessions: () => void;
 }
 
+const PROVIDER_OPTIONS: { id: ProviderId; short: string }[] = [
+  { id: 'GEMINI', short: 'Gemini' },
+  { id: 'LOCAL', short: 'Local' },
+  { id: 'MOCK', short: 'Mock' },
+];
+
+const FRAME_COUNT_OPTIONS = [1, 3, 5];
+const FRAME_SPACING_OPTIONS = [250, 500, 1000, 2000, 5000];
+const MAX_STALENESS_OPTIONS = [30000, 60000, 120000, 300000];
+
 const Sidebar: React.FC<SidebarProps> = ({
   context,
   setContext,
   thinkingLevel,
   setThinkingLevel,
-  onOpenGallery
+  providerSettings,
+  setProviderSettings,
+  temporalSettings,
+  setTemporalSettings,
+  baseIntervalMs,
+  setBaseIntervalMs,
+  changeDetection,
+  setChangeDetection,
+  keepFullFrames,
+  setKeepFullFrames,
+  onOpenGallery,
+  sessionName,
+  onOpenSessions
 }) => {
+  const [contextView, setContextView] = useState<'FORM' | 'TEXT'>('FORM');
+
   return (
     <aside className="w-full md:w-80 bg-white border-r border-slate-200 p-6 flex flex-col h-full overflow-y-auto shadow-[4px_0_24px_-12px_rgba(0,0,0,0.1)] z-10">
       <div className="mb-8">
@@ -26,6 +66,19 @@ const Sidebar: React.FC<SidebarProps> = ({
       </div>
 
       <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Session
+          </label>
+          <button
+            onClick={onOpenSessions}
+            className="w-full flex items-center justify-between gap-2 bg-white border border-slate-200 hover:border-emerald-300 rounded-lg px-3 py-2.5 text-left shadow-sm transition-colors"
+          >
+            <span className="text-sm text-slate-800 font-medium truncate">{sessionName || 'Untitled session'}</span>
+            <span className="text-xs font-semibold text-emerald-700 flex-shrink-0">Browse</span>
+          </button>
+        </div>
+
         <div>
           <label className="block text-sm font-semibold text-slate-700 mb-2">
             Reasoning Depth
@@ -54,11 +107,200 @@ const Sidebar: React.FC<SidebarProps> = ({
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Frames per Analysis
+          </label>
+          <div className="grid grid-cols-3 gap-2 bg-slate-100 p-1 rounded-lg border border-slate-200">
+            {FRAME_COUNT_OPTIONS.map(count => (
+              <button
+                key={count}
+                onClick={() => setTemporalSettings({ ...temporalSettings, frameCount: count })}
+                className={`text-sm py-2 px-2 rounded-md transition-all duration-200 font-medium ${
+                  temporalSettings.frameCount === count
+                    ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {count === 1 ? 'Single' : count}
+              </button>
+            ))}
+          </div>
+          {temporalSettings.frameCount > 1 && (
+            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-slate-500">
+              <span>Frame spacing</span>
+              <select
+                value={temporalSettings.frameSpacingMs}
+                onChange={(e) => setTemporalSettings({ ...temporalSettings, frameSpacingMs: Number(e.target.value) })}
+                className="bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-mono text-slate-800 focus:border-emerald-500 outline-none"
+              >
+                {FRAME_SPACING_OPTIONS.map(ms => (
+                  <option key={ms} value={ms}>{ms < 1000 ? `${ms} ms` : `${ms / 1000} s`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <p className="mt-2 text-xs text-slate-400">Camera and video sources send a timed sequence so changes between frames can be reasoned about.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Monitoring Interval
+          </label>
+          <div className="grid grid-cols-5 gap-1 bg-slate-100 p-1 rounded-lg border border-slate-200">
+            {BASE_INTERVAL_OPTIONS.map(ms => (
+              <button
+                key={ms}
+                onClick={() => setBaseIntervalMs(ms)}
+                className={`text-xs py-2 px-1 rounded-md transition-all duration-200 font-medium ${
+                  baseIntervalMs === ms
+                    ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {formatInterval(ms).replace(' ', '')}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-400">Base pace for this experiment. Monitoring speeds up on WARNING/CRITICAL or fast-moving telemetry and slows down during long NORMAL stretches.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Skip Unchanged Frames
+          </label>
+          <div className="grid grid-cols-4 gap-2 bg-slate-100 p-1 rounded-lg border border-slate-200">
+            <button
+              onClick={() => setChangeDetection({ ...changeDetection, enabled: false })}
+              className={`text-sm py-2 px-1 rounded-md transition-all duration-200 font-medium ${
+                !changeDetection.enabled
+                  ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                  : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              Off
+            </button>
+            {CHANGE_SENSITIVITY_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => setChangeDetection({
+                  ...changeDetection,
+                  enabled: true,
+                  visualThreshold: preset.visualThreshold,
+                  telemetryThreshold: preset.telemetryThreshold,
+                })}
+                className={`text-sm py-2 px-1 rounded-md transition-all duration-200 font-medium ${
+                  changeDetection.enabled && changeDetection.visualThreshold === preset.visualThreshold
+                    ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {preset.label === 'Medium' ? 'Med' : preset.label}
+              </button>
+            ))}
+          </div>
+          {changeDetection.enabled && (
+            <div className="mt-2 flex items-center justify-between gap-2 text-xs text-slate-500">
+              <span>Analyze at least every</span>
+              <select
+                value={changeDetection.maxStalenessMs}
+                onChange={(e) => setChangeDetection({ ...changeDetection, maxStalenessMs: Number(e.target.value) })}
+                className="bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-mono text-slate-800 focus:border-emerald-500 outline-none"
+              >
+                {MAX_STALENESS_OPTIONS.map(ms => (
+                  <option key={ms} value={ms}>{ms < 60000 ? `${ms / 1000} s` : `${ms / 60000} min`}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <p className="mt-2 text-xs text-slate-400">Auto-monitoring only calls the model when the frame or telemetry has changed noticeably since the last analysis.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Stored Frames
+          </label>
+          <div className="grid grid-cols-2 gap-2 bg-slate-100 p-1 rounded-lg border border-slate-200">
+            {[false, true].map(full => (
+              <button
+                key={String(full)}
+                onClick={() => setKeepFullFrames(full)}
+                className={`text-sm py-2 px-1 rounded-md transition-all duration-200 font-medium ${
+                  keepFullFrames === full
+                    ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {full ? 'Full Frame' : 'Thumbnail'}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-400">Every entry keeps a small thumbnail. Full frames make long sessions much larger.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-semibold text-slate-700 mb-2">
+            Model Provider
+          </label>
+          <div className="grid grid-cols-3 gap-2 bg-slate-100 p-1 rounded-lg border border-slate-200">
+            {PROVIDER_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setProviderSettings({ ...providerSettings, id: option.id })}
+                title={PROVIDERS[option.id].label}
+                className={`text-sm py-2 px-2 rounded-md transition-all duration-200 font-medium ${
+                  providerSettings.id === option.id
+                    ? 'bg-white text-slate-900 shadow-sm border border-slate-200'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {option.short}
+              </button>
+            ))}
+          </div>
+
+          {providerSettings.id === 'LOCAL' && (
+            <div className="mt-3 space-y-2">
+              <input
+                type="text"
+                value={providerSettings.localEndpoint}
+                onChange={(e) => setProviderSettings({ ...providerSettings, localEndpoint: e.target.value })}
+                className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono text-slate-800 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                placeholder="http://localhost:11434/v1"
+              />
+              <input
+                type="text"
+                value={providerSettings.localModel}
+                onChange={(e) => setProviderSettings({ ...providerSettings, localModel: e.target.value })}
+                className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-xs font-mono text-slate-800 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none"
+                placeholder="Vision model name (e.g. llava)"
+              />
+            </div>
+          )}
+
+          {providerSettings.id === 'MOCK' && (
+            <p className="mt-2 text-xs text-slate-400">Scripted responses for offline development. No model is called.</p>
+          )}
+        </div>
+
         <div className="flex-grow flex flex-col">
           <div className="flex justify-between items-end mb-2">
             <label htmlFor="context" className="block text-sm font-semibold text-slate-700">
               Experiment Context
             </label>
+            <div className="flex bg-slate-100 p-0.5 rounded-md border border-slate-200">
+              {(['FORM', 'TEXT'] as const).map(view => (
+                <button
+                  key={view}
+                  onClick={() => setContextView(view)}
+                  className={`text-[10px] font-bold px-2 py-0.5 rounded transition-all ${
+                    contextView === view ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {view === 'FORM' ? 'Form' : 'Text'}
+                </button>
+              ))}
+            </div>
           </div>
           
           <button 
@@ -70,18 +312,22 @@ const Sidebar: React.FC<SidebarProps> = ({
             <span className="relative">Browse Library</span>
           </button>
 
-          <textarea
-            id="context"
-            value={context}
-            onChange={(e) => setContext(e.target.value)}
-            className="w-full flex-grow bg-white border border-slate-200 rounded-lg p-3 text-sm text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none resize-none min-h-[200px] shadow-sm transition-all"
-            placeholder="Describe the experiment:&#10;- Reactants used&#10;- Expected outcome&#10;- Temperature/Conditions&#10;- Current phase"
-          />
+          {contextView === 'FORM' ? (
+            <ContextForm value={context} onChange={setContext} />
+          ) : (
+            <textarea
+              id="context"
+              value={context}
+              onChange={(e) => setContext(e.target.value)}
+              className="w-full flex-grow bg-white border border-slate-200 rounded-lg p-3 text-sm text-slate-800 placeholder-slate-400 focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none resize-none min-h-[200px] shadow-sm transition-all"
+              placeholder="Describe the experiment:&#10;- Reactants used&#10;- Expected outcome&#10;- Temperature/Conditions&#10;- Current phase"
+            />
+          )}
         </div>
       </div>
 
       <div className="mt-auto pt-6 border-t border-slate-200 text-xs text-slate-400 font-medium">
-        <p>Powered by Google Gemini 3</p>
+        <p>Powered by {PROVIDERS[providerSettings.id].label}</p>
         <p>v1.4.0 • Light Theme</p>
       </div>
     </aside>
@@ -1,24 +1,87 @@
-import React from 'react';
-import { TelemetryData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { TelemetryData, TelemetryAlarm, TelemetryChannel, ExperimentStatus } from '../types';
 import { TelemetryMode } from '../App';
+import { StreamStatus } from '../services/telemetryStream';
+import { CHANNEL_REGISTRY, formatChannelValue, isOutOfRange } from '../services/telemetryChannels';
 
 interface TelemetryPanelProps {
   data: TelemetryData;
+  channels: TelemetryChannel[];
+  setChannelIds: (ids: string[]) => void;
   mode: TelemetryMode;
   setMode: (mode: TelemetryMode) => void;
   setData: (data: React.SetStateAction<TelemetryData>) => void;
+  alarms: TelemetryAlarm[];
+  streamUrl: string;
+  setStreamUrl: (url: string) => void;
+  streamStatus: StreamStatus;
+  streamDetail?: string;
+  lastSampleAt: number | null;
 }
 
-const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ data, mode, setMode, setData }) => {
+// Samples older than this are flagged as stale in STREAM mode
+const STALE_SAMPLE_MS = 5000;
+
+const MODE_LABELS: Record<TelemetryMode, string> = {
+  SIMULATED: 'Simulated Sensors',
+  MANUAL: 'Manual Entry',
+  STREAM: 'Live Stream',
+};
+
+const STREAM_STATUS_STYLES: Record<StreamStatus, string> = {
+  CONNECTING: 'bg-amber-400',
+  OPEN: 'bg-emerald-500',
+  RECONNECTING: 'bg-amber-500 animate-pulse',
+  CLOSED: 'bg-slate-300',
+};
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({
+  data,
+  channels,
+  setChannelIds,
+  mode,
+  setMode,
+  setData,
+  alarms,
+  streamUrl,
+  setStreamUrl,
+  streamStatus,
+  streamDetail,
+  lastSampleAt
+}) => {
+  const [urlDraft, setUrlDraft] = useState(streamUrl);
+  const [now, setNow] = useState(Date.now());
+  const [isPickingChannels, setIsPickingChannels] = useState(false);
+
+  // Re-render every second so the sample age stays current
+  useEffect(() => {
+    if (mode !== 'STREAM') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [mode]);
+
+  const sampleAge = lastSampleAt !== null ? Math.max(0, now - lastSampleAt) : null;
+  const isStale = sampleAge === null || sampleAge > STALE_SAMPLE_MS;
   
-  const handleTempChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Card border reflects the most severe rule alarm on that channel
+  const cardBorder = (channel: string) => {
+    const channelAlarms = alarms.filter(a => a.channel === channel);
+    if (channelAlarms.some(a => a.severity === ExperimentStatus.CRITICAL)) return 'border-rose-300 ring-2 ring-rose-500/20';
+    if (channelAlarms.length > 0) return 'border-amber-300 ring-2 ring-amber-500/20';
+    return mode === 'MANUAL' ? 'border-indigo-100 ring-2 ring-indigo-500/10' : 'border-slate-200';
+  };
+  
+  const handleValueChange = (channelId: string, e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseFloat(e.target.value);
-    setData(prev => ({ ...prev, temperature: isNaN(val) ? 0 : val }));
+    setData(prev => ({ ...prev, [channelId]: isNaN(val) ? 0 : val }));
   };
 
-  const handlePressureChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = parseFloat(e.target.value);
-    setData(prev => ({ ...prev, pressure: isNaN(val) ? 0 : val }));
+  // Keeps registry order so cards don't jump around when channels are toggled
+  const toggleChannel = (id: string) => {
+    const selected = channels.map(c => c.id);
+    const next = selected.includes(id) ? selected.filter(c => c !== id) : [...selected, id];
+    if (next.length === 0) return;
+    setChannelIds(Object.keys(CHANNEL_REGISTRY).filter(c => next.includes(c)).concat(next.filter(c => !CHANNEL_REGISTRY[c])));
   };
 
   return (
@@ -27,10 +90,19 @@ const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ data, mode, setMode, se
          <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wide flex items-center gap-2">
            Lab Environment
            <span className="text-xs font-normal normal-case text-slate-400 bg-slate-100 px-2 py-0.5 rounded-full">
-             {mode === 'SIMULATED' ? 'Live Sensors' : 'Manual Entry'}
+             {MODE_LABELS[mode]}
            </span>
          </h3>
          
+         <div className="flex items-center gap-2">
+         <button
+           onClick={() => setIsPickingChannels(!isPickingChannels)}
+           className={`text-xs font-semibold px-3 py-1.5 rounded-lg border transition-all ${
+             isPickingChannels ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:text-slate-700'
+           }`}
+         >
+           Channels ({channels.length})
+         </button>
          <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
             <button
               onClick={() => setMode('SIMULATED')}
@@ -48,61 +120,111 @@ const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ data, mode, setMode, se
             >
               Manual
             </button>
+            <button
+              onClick={() => setMode('STREAM')}
+              className={`text-xs font-semibold px-3 py-1 rounded-md transition-all ${
+                mode === 'STREAM' ? 'bg-white text-sky-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              Stream
+            </button>
+         </div>
          </div>
       </div>
 
-      <div className="grid grid-cols-2 gap-4">
-        {/* Temperature Card */}
-        <div className={`bg-white p-4 rounded-xl border shadow-sm flex items-center justify-between transition-colors ${mode === 'MANUAL' ? 'border-indigo-100 ring-2 ring-indigo-500/10' : 'border-slate-200'}`}>
-          <div className="flex-grow">
-            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Temperature</p>
-            <div className="flex items-center gap-2">
-              {mode === 'MANUAL' ? (
-                <input 
-                  type="number" 
-                  step="0.1"
-                  value={data.temperature} 
-                  onChange={handleTempChange}
-                  className="w-full text-2xl font-bold text-slate-900 border-b border-slate-200 focus:border-indigo-500 outline-none bg-transparent p-0"
-                />
-              ) : (
-                <span className="text-2xl font-bold text-slate-900">{data.temperature.toFixed(1)}</span>
-              )}
-              <span className="text-sm font-medium text-slate-400">°C</span>
-            </div>
-          </div>
-          <div className="w-10 h-10 rounded-full bg-rose-50 border border-rose-100 flex items-center justify-center text-rose-500 ml-4 flex-shrink-0">
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-            </svg>
+      {mode === 'STREAM' && (
+        <div className="mb-4 flex flex-col md:flex-row md:items-center gap-3 bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+          <form
+            className="flex flex-grow gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setStreamUrl(urlDraft.trim());
+            }}
+          >
+            <input
+              type="text"
+              value={urlDraft}
+              onChange={(e) => setUrlDraft(e.target.value)}
+              className="flex-grow bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-xs font-mono text-slate-800 focus:ring-2 focus:ring-sky-500/20 focus:border-sky-500 outline-none"
+              placeholder="ws://localhost:8765"
+            />
+            <button
+              type="submit"
+              disabled={urlDraft.trim() === streamUrl}
+              className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-100 disabled:text-slate-400 transition-colors"
+            >
+              Connect
+            </button>
+          </form>
+          <div className="flex items-center gap-4 text-xs font-mono text-slate-500 flex-shrink-0">
+            <span className="flex items-center gap-1.5" title={streamDetail}>
+              <span className={`w-2 h-2 rounded-full ${STREAM_STATUS_STYLES[streamStatus]}`}></span>
+              {streamStatus}
+            </span>
+            <span className={isStale ? 'text-amber-600' : 'text-slate-500'}>
+              {sampleAge === null ? 'no samples yet' : `last sample ${(sampleAge / 1000).toFixed(0)}s ago`}
+            </span>
           </div>
         </div>
+      )}
 
-        {/* Pressure Card */}
-        <div className={`bg-white p-4 rounded-xl border shadow-sm flex items-center justify-between transition-colors ${mode === 'MANUAL' ? 'border-indigo-100 ring-2 ring-indigo-500/10' : 'border-slate-200'}`}>
-          <div className="flex-grow">
-            <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Pressure</p>
-            <div className="flex items-center gap-2">
-              {mode === 'MANUAL' ? (
-                <input 
-                  type="number" 
-                  step="0.1"
-                  value={data.pressure} 
-                  onChange={handlePressureChange}
-                  className="w-full text-2xl font-bold text-slate-900 border-b border-slate-200 focus:border-indigo-500 outline-none bg-transparent p-0"
-                />
-              ) : (
-                <span className="text-2xl font-bold text-slate-900">{data.pressure.toFixed(1)}</span>
-              )}
-              <span className="text-sm font-medium text-slate-400">kPa</span>
-            </div>
-          </div>
-          <div className="w-10 h-10 rounded-full bg-blue-50 border border-blue-100 flex items-center justify-center text-blue-500 ml-4 flex-shrink-0">
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-          </div>
+      {isPickingChannels && (
+        <div className="mb-4 flex flex-wrap gap-2 bg-white p-3 rounded-xl border border-slate-200 shadow-sm">
+          {Object.values(CHANNEL_REGISTRY).map(channel => {
+            const isSelected = channels.some(c => c.id === channel.id);
+            return (
+              <button
+                key={channel.id}
+                onClick={() => toggleChannel(channel.id)}
+                className={`text-xs font-semibold px-3 py-1 rounded-full border transition-all ${
+                  isSelected ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'
+                }`}
+              >
+                {channel.label} <span className="font-normal opacity-70">{channel.unit}</span>
+              </button>
+            );
+          })}
         </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+        {channels.map(channel => {
+          const value = data[channel.id];
+          const outOfRange = isOutOfRange(channel, value);
+          return (
+            <div key={channel.id} className={`bg-white p-4 rounded-xl border shadow-sm flex items-center justify-between transition-colors ${cardBorder(channel.id)}`}>
+              <div className="flex-grow min-w-0">
+                <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1 truncate">{channel.label}</p>
+                <div className="flex items-center gap-2">
+                  {mode === 'MANUAL' ? (
+                    <input 
+                      type="number" 
+                      step={Math.pow(10, -channel.precision)}
+                      value={value ?? ''} 
+                      onChange={(e) => handleValueChange(channel.id, e)}
+                      className="w-full text-2xl font-bold text-slate-900 border-b border-slate-200 focus:border-indigo-500 outline-none bg-transparent p-0"
+                    />
+                  ) : (
+                    <span className="text-2xl font-bold text-slate-900">{formatChannelValue(channel, value)}</span>
+                  )}
+                  <span className="text-sm font-medium text-slate-400 flex-shrink-0">{channel.unit}</span>
+                </div>
+                <p className={`text-[10px] font-mono mt-1 ${outOfRange ? 'text-amber-600 font-semibold' : 'text-slate-400'}`}>
+                  {outOfRange ? 'Outside expected ' : 'Expected '}
+                  {channel.expectedRange.min}–{channel.expectedRange.max}
+                </p>
+              </div>
+              <div
+                className="w-10 h-10 rounded-full border flex items-center justify-center ml-4 flex-shrink-0"
+                style={{ color: channel.color, borderColor: `${channel.color}33`, backgroundColor: `${channel.color}11` }}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
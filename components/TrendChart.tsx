@@ -0,0 +1,475 @@
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { ExperimentStatus, HistoryItem, TelemetryChannel } from '../types';
+import { formatChannelValue, getChannel } from '../services/telemetryChannels';
+import { formatVideoTime } from '../services/videoScan';
+import {
+  ChartView, TimeRange, clampView, historyBounds, nearestEntryIndex, panView, statusBands, timeTicks, valueTicks, zoomView,
+} from '../services/trendChart';
+
+interface TrendChartProps {
+  history: HistoryItem[];
+  // Declared channels are listed first and shown by default
+  channels: TelemetryChannel[];
+  // Entries hidden by the log filter are drawn faded
+  isDimmed: (item: HistoryItem) => boolean;
+  onSelectEntry: (item: HistoryItem) => void;
+}
+
+const STATUS_SERIES = 'status';
+const STATUS_COLORS: Partial<Record<ExperimentStatus, string>> = {
+  [ExperimentStatus.NORMAL]: '#10b981',
+  [ExperimentStatus.WARNING]: '#f59e0b',
+  [ExperimentStatus.CRITICAL]: '#f43f5e',
+};
+const BAND_COLORS: Record<ExperimentStatus.WARNING | ExperimentStatus.CRITICAL, string> = {
+  [ExperimentStatus.WARNING]: '#fef3c7',
+  [ExperimentStatus.CRITICAL]: '#ffe4e6',
+};
+
+// SVG coordinate space
+const WIDTH = 1000;
+const HEIGHT = 240;
+const MARGIN = { top: 12, right: 64, bottom: 34, left: 72 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const OVERVIEW_HEIGHT = 36;
+// Above this many visible entries only the lines are drawn
+const MAX_DRAWN_POINTS = 400;
+// Pointer travel below this (in SVG units) is a click rather than a pan
+const CLICK_TOLERANCE = 4;
+
+// INVALID entries have no safety score and are drawn as markers instead
+const statusValue = (status: ExperimentStatus): number | null => {
+  switch (status) {
+    case ExperimentStatus.NORMAL: return 0;
+    case ExperimentStatus.WARNING: return 1;
+    case ExperimentStatus.CRITICAL: return 2;
+    default: return null;
+  }
+};
+
+const TrendChart: React.FC<TrendChartProps> = ({ history, channels, isDimmed, onSelectEntry }) => {
+  const clipId = useId();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const overviewRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<ChartView | null>(null);
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragRef = useRef<{ x: number; view: TimeRange; moved: boolean } | null>(null);
+  const brushRef = useRef<{ time: number; moved: boolean } | null>(null);
+
+  const bounds = useMemo(() => historyBounds(history), [history]);
+  const fullSpan = bounds.end - bounds.start;
+
+  // A live window follows new entries; otherwise the window stays where it was left
+  const visible: TimeRange = !view || fullSpan <= 0
+    ? bounds
+    : view.live
+      ? { start: Math.max(bounds.start, bounds.end - (view.end - view.start)), end: bounds.end }
+      : clampView(view, bounds);
+  const span = visible.end - visible.start || 1;
+  const isZoomed = !!view && span < fullSpan;
+
+  // The declared channels, then any other channel recorded in this history
+  const seriesChannels = useMemo(() => {
+    const ids = channels.map(c => c.id);
+    history.forEach(item => Object.keys(item.telemetry).forEach(id => {
+      if (!ids.includes(id)) ids.push(id);
+    }));
+    return ids.map(getChannel);
+  }, [history, channels]);
+  const shownChannels = seriesChannels.filter(c => !hidden.has(c.id));
+  const showStatus = !hidden.has(STATUS_SERIES);
+  // The right-hand axis is labelled for the first shown channel; the others share its height
+  const axisChannel = shownChannels[0];
+
+  // Scanned sessions are labelled in video time
+  const videoOrigin = useMemo(() => {
+    if (history.length === 0 || history.some(item => item.videoTime === undefined)) return null;
+    return history[0].timestamp - history[0].videoTime! * 1000;
+  }, [history]);
+  const formatTime = (t: number) => videoOrigin !== null
+    ? formatVideoTime((t - videoOrigin) / 1000)
+    : new Date(t).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  // Visible entries plus one on each side so lines run to the plot edge
+  const firstVisible = Math.max(0, nearestEntryIndex(history, visible.start) - 1);
+  const lastVisible = Math.min(history.length - 1, nearestEntryIndex(history, visible.end) + 1);
+  const windowItems = history.slice(firstVisible, lastVisible + 1);
+
+  const xScale = (t: number) => MARGIN.left + ((t - visible.start) / span) * PLOT_WIDTH;
+  const yStatus = (v: number) => MARGIN.top + PLOT_HEIGHT - (v / 2) * PLOT_HEIGHT;
+
+  // Each channel is scaled to its own range within the window
+  const channelScales: Record<string, { min: number; max: number }> = {};
+  shownChannels.forEach(channel => {
+    const values = windowItems.map(d => d.telemetry[channel.id]).filter((v): v is number => v !== undefined);
+    if (values.length === 0) return;
+    const margin = Math.pow(10, -channel.precision) * 10;
+    channelScales[channel.id] = { min: Math.min(...values) - margin, max: Math.max(...values) + margin };
+  });
+  const yChannel = (id: string, v: number) => {
+    const { min, max } = channelScales[id];
+    return MARGIN.top + PLOT_HEIGHT - ((v - min) / (max - min || 1)) * PLOT_HEIGHT;
+  };
+
+  const bands = useMemo(() => statusBands(history), [history]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  const hasChart = history.length >= 2;
+  const stateRef = useRef({ visible, bounds });
+  stateRef.current = { visible, bounds };
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      const { visible: current, bounds: full } = stateRef.current;
+      if (full.end <= full.start) return;
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+      const anchor = current.start + ((x - MARGIN.left) / PLOT_WIDTH) * (current.end - current.start);
+      setView(zoomView(current, e.deltaY < 0 ? 0.8 : 1.25, anchor, full));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [hasChart]);
+
+  const toSvgX = (svg: SVGSVGElement | null, clientX: number) => {
+    if (!svg) return 0;
+    const rect = svg.getBoundingClientRect();
+    return ((clientX - rect.left) / rect.width) * WIDTH;
+  };
+  const timeAt = (x: number) => visible.start + ((x - MARGIN.left) / PLOT_WIDTH) * span;
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: toSvgX(svgRef.current, e.clientX), view: visible, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const x = toSvgX(svgRef.current, e.clientX);
+    const drag = dragRef.current;
+    if (drag) {
+      if (Math.abs(x - drag.x) > CLICK_TOLERANCE) drag.moved = true;
+      if (drag.moved && fullSpan > 0) {
+        const dragSpan = drag.view.end - drag.view.start;
+        setView(panView(drag.view, -((x - drag.x) / PLOT_WIDTH) * dragSpan, bounds));
+        setHoverIndex(null);
+        return;
+      }
+    }
+    setHoverIndex(x >= MARGIN.left && x <= WIDTH - MARGIN.right ? nearestEntryIndex(history, timeAt(x)) : null);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) {
+      const index = nearestEntryIndex(history, timeAt(toSvgX(svgRef.current, e.clientX)));
+      if (index !== -1) onSelectEntry(history[index]);
+    }
+  };
+
+  // Overview: drag to select a window, click to centre the current one
+  const overviewTimeAt = (clientX: number) =>
+    bounds.start + ((toSvgX(overviewRef.current, clientX) - MARGIN.left) / PLOT_WIDTH) * fullSpan;
+
+  const handleBrushDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (fullSpan <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    brushRef.current = { time: overviewTimeAt(e.clientX), moved: false };
+  };
+
+  const handleBrushMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const brush = brushRef.current;
+    if (!brush) return;
+    const time = overviewTimeAt(e.clientX);
+    if (Math.abs(time - brush.time) / fullSpan * PLOT_WIDTH > CLICK_TOLERANCE) brush.moved = true;
+    if (brush.moved) {
+      setView(clampView({ start: Math.min(brush.time, time), end: Math.max(brush.time, time) }, bounds));
+    }
+  };
+
+  const handleBrushUp = () => {
+    const brush = brushRef.current;
+    brushRef.current = null;
+    if (brush && !brush.moved) {
+      setView(clampView({ start: brush.time - span / 2, end: brush.time + span / 2 }, bounds));
+    }
+  };
+
+  const zoomBy = (factor: number) => setView(zoomView(visible, factor, (visible.start + visible.end) / 2, bounds));
+
+  const toggleSeries = (id: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (!hasChart) {
+    return (
+      <div className="h-48 flex items-center justify-center text-slate-400 text-sm border border-slate-100 rounded-lg bg-slate-50">
+        Not enough data points for trend analysis...
+      </div>
+    );
+  }
+
+  const scoredPoints = windowItems.filter(d => statusValue(d.analysis.status) !== null);
+  const invalidPoints = windowItems.filter(d => d.analysis.status === ExperimentStatus.INVALID);
+  // First entry of each protocol step in the window
+  const stepBoundaries = windowItems.filter((d, i) =>
+    d.protocolStep && (i === 0 || windowItems[i - 1].protocolStep?.index !== d.protocolStep.index)
+  );
+  const drawPoints = lastVisible - firstVisible <= MAX_DRAWN_POINTS;
+
+  const statusPath = scoredPoints.map((d, i) =>
+    `${i === 0 ? 'M' : 'L'} ${xScale(d.timestamp)} ${yStatus(statusValue(d.analysis.status)!)}`
+  ).join(' ');
+  const channelPath = (id: string) => windowItems
+    .filter(d => d.telemetry[id] !== undefined)
+    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${xScale(d.timestamp)} ${yChannel(id, d.telemetry[id])}`)
+    .join(' ');
+
+  const ticks = timeTicks(visible, 6, videoOrigin ?? -new Date(visible.start).getTimezoneOffset() * 60000);
+  const axisScale = axisChannel && channelScales[axisChannel.id];
+  const hovered = hoverIndex !== null ? history[hoverIndex] : null;
+  const hoverX = hovered ? xScale(hovered.timestamp) : 0;
+
+  // Overview of the whole run with the visible window highlighted
+  const overviewX = (t: number) => MARGIN.left + ((t - bounds.start) / (fullSpan || 1)) * PLOT_WIDTH;
+  const overviewPath = history
+    .filter(d => statusValue(d.analysis.status) !== null)
+    .map((d, i) => `${i === 0 ? 'M' : 'L'} ${overviewX(d.timestamp)} ${OVERVIEW_HEIGHT - 6 - (statusValue(d.analysis.status)! / 2) * (OVERVIEW_HEIGHT - 12)}`)
+    .join(' ');
+
+  const legendButton = (id: string, label: string, color: string) => (
+    <button
+      key={id}
+      onClick={() => toggleSeries(id)}
+      className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-opacity ${hidden.has(id) ? 'opacity-40' : ''}`}
+      title={hidden.has(id) ? `Show ${label}` : `Hide ${label}`}
+    >
+      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }}></span>
+      <span className="text-slate-600">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="w-full bg-white rounded-lg border border-slate-200 p-4 shadow-sm">
+      <div className="flex justify-between items-start gap-4 mb-3">
+        <div>
+          <h4 className="text-xs font-bold uppercase text-slate-500 tracking-wider">Trends</h4>
+          <p className="text-[10px] text-slate-400 mt-0.5">Scroll to zoom · drag to pan · click a point for details</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoomBy(0.5)} className="w-7 h-7 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50" title="Zoom in">+</button>
+          <button onClick={() => zoomBy(2)} disabled={!isZoomed} className="w-7 h-7 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:text-slate-300" title="Zoom out">−</button>
+          <button onClick={() => setView(null)} disabled={!isZoomed} className="text-xs font-semibold px-2 h-7 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:text-slate-300">
+            Show All
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-2 gap-y-1 text-xs mb-2">
+        {legendButton(STATUS_SERIES, 'Safety Score', '#10b981')}
+        {seriesChannels.map(channel => legendButton(channel.id, channel.label, channel.color))}
+        {bands.length > 0 && (
+          <span className="flex items-center gap-1 px-1.5 text-slate-500">
+            <span className="w-3 h-2" style={{ backgroundColor: BAND_COLORS[ExperimentStatus.WARNING] }}></span>Warning
+            <span className="w-3 h-2 ml-1" style={{ backgroundColor: BAND_COLORS[ExperimentStatus.CRITICAL] }}></span>Critical
+          </span>
+        )}
+        {stepBoundaries.length > 0 && (
+          <span className="flex items-center gap-1 px-1.5 text-slate-500">
+            <span className="w-0 h-3 border-l-2 border-indigo-300"></span>Protocol Step
+          </span>
+        )}
+        {invalidPoints.length > 0 && (
+          <span className="flex items-center gap-1 px-1.5 text-slate-500">
+            <span className="w-2 h-0 border-t-2 border-dashed border-slate-400"></span>Invalid Response
+          </span>
+        )}
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => setHoverIndex(null)}
+        >
+          <defs>
+            <clipPath id={clipId}>
+              <rect x={MARGIN.left} y={MARGIN.top - 6} width={PLOT_WIDTH} height={PLOT_HEIGHT + 12} />
+            </clipPath>
+          </defs>
+
+          <g clipPath={`url(#${clipId})`}>
+            {/* WARNING / CRITICAL periods */}
+            {bands.filter(b => b.end >= visible.start && b.start <= visible.end).map(b => (
+              <rect
+                key={`band-${b.start}`}
+                x={xScale(b.start)}
+                y={MARGIN.top}
+                width={Math.max(3, xScale(b.end) - xScale(b.start))}
+                height={PLOT_HEIGHT}
+                fill={BAND_COLORS[b.status]}
+              />
+            ))}
+
+            {/* Time grid */}
+            {ticks.map(t => (
+              <line key={`grid-${t}`} x1={xScale(t)} y1={MARGIN.top} x2={xScale(t)} y2={MARGIN.top + PLOT_HEIGHT} stroke="#f1f5f9" />
+            ))}
+            {[0, 1, 2].map(v => (
+              <line key={`level-${v}`} x1={MARGIN.left} y1={yStatus(v)} x2={WIDTH - MARGIN.right} y2={yStatus(v)} stroke="#e2e8f0" strokeDasharray="4 4" />
+            ))}
+
+            {/* Protocol step boundaries */}
+            {stepBoundaries.map(d => (
+              <g key={`step-${d.timestamp}`}>
+                <line x1={xScale(d.timestamp)} y1={MARGIN.top} x2={xScale(d.timestamp)} y2={MARGIN.top + PLOT_HEIGHT} stroke="#a5b4fc" strokeWidth="2" />
+                <text x={xScale(d.timestamp) + 4} y={MARGIN.top + 10} fontSize="11" fill="#6366f1">
+                  <title>{d.protocolStep!.title}</title>
+                  Step {d.protocolStep!.index + 1}
+                </text>
+              </g>
+            ))}
+
+            {/* Invalid responses */}
+            {invalidPoints.map(d => (
+              <line key={`invalid-${d.timestamp}`} x1={xScale(d.timestamp)} y1={MARGIN.top} x2={xScale(d.timestamp)} y2={MARGIN.top + PLOT_HEIGHT} stroke="#94a3b8" strokeWidth="2" strokeDasharray="2 3" />
+            ))}
+
+            {/* Series */}
+            {shownChannels.filter(c => channelScales[c.id]).map(channel => (
+              <path key={channel.id} d={channelPath(channel.id)} fill="none" stroke={channel.color} strokeWidth="2" strokeOpacity={channel === axisChannel ? 0.8 : 0.5} />
+            ))}
+            {showStatus && <path d={statusPath} fill="none" stroke="#10b981" strokeWidth="3" />}
+            {showStatus && drawPoints && scoredPoints.map(d => (
+              <circle
+                key={d.timestamp}
+                opacity={isDimmed(d) ? 0.25 : 1}
+                cx={xScale(d.timestamp)}
+                cy={yStatus(statusValue(d.analysis.status)!)}
+                r="4"
+                fill={STATUS_COLORS[d.analysis.status]}
+                stroke="white"
+                strokeWidth="2"
+              />
+            ))}
+
+            {/* Hover guide */}
+            {hovered && (
+              <line x1={hoverX} y1={MARGIN.top} x2={hoverX} y2={MARGIN.top + PLOT_HEIGHT} stroke="#64748b" strokeWidth="1" />
+            )}
+          </g>
+
+          {/* Axes */}
+          <line x1={MARGIN.left} y1={MARGIN.top + PLOT_HEIGHT} x2={WIDTH - MARGIN.right} y2={MARGIN.top + PLOT_HEIGHT} stroke="#cbd5e1" />
+          {ticks.map(t => (
+            <text key={`tick-${t}`} x={xScale(t)} y={MARGIN.top + PLOT_HEIGHT + 14} fontSize="10" fill="#94a3b8" textAnchor="middle">
+              {formatTime(t)}
+            </text>
+          ))}
+          <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 2} fontSize="10" fill="#64748b" textAnchor="middle" fontWeight="600">
+            {videoOrigin !== null ? 'Video time' : 'Time'}
+          </text>
+
+          {showStatus && (
+            <>
+              {(['NORMAL', 'WARNING', 'CRITICAL'] as const).map((label, v) => (
+                <text key={label} x={MARGIN.left - 6} y={yStatus(v) + 3} fontSize="10" fill={STATUS_COLORS[ExperimentStatus[label]]} textAnchor="end">
+                  {label}
+                </text>
+              ))}
+              <text x={12} y={MARGIN.top + PLOT_HEIGHT / 2} fontSize="10" fill="#64748b" textAnchor="middle" fontWeight="600" transform={`rotate(-90 12 ${MARGIN.top + PLOT_HEIGHT / 2})`}>
+                Status
+              </text>
+            </>
+          )}
+
+          {axisChannel && axisScale && (
+            <>
+              {valueTicks(axisScale.min, axisScale.max).map(v => (
+                <text key={`value-${v}`} x={WIDTH - MARGIN.right + 6} y={yChannel(axisChannel.id, v) + 3} fontSize="10" fill={axisChannel.color}>
+                  {formatChannelValue(axisChannel, v)}
+                </text>
+              ))}
+              <text
+                x={WIDTH - 10}
+                y={MARGIN.top + PLOT_HEIGHT / 2}
+                fontSize="10"
+                fill="#64748b"
+                textAnchor="middle"
+                fontWeight="600"
+                transform={`rotate(90 ${WIDTH - 10} ${MARGIN.top + PLOT_HEIGHT / 2})`}
+              >
+                {axisChannel.label}{axisChannel.unit && ` (${axisChannel.unit})`}
+              </text>
+            </>
+          )}
+        </svg>
+
+        {/* Tooltip */}
+        {hovered && (
+          <div
+            className="absolute top-2 z-10 pointer-events-none bg-white/95 border border-slate-200 rounded-lg shadow-lg px-3 py-2 text-[11px] max-w-[240px]"
+            style={hoverX / WIDTH < 0.6
+              ? { left: `calc(${(hoverX / WIDTH) * 100}% + 10px)` }
+              : { right: `calc(${(1 - hoverX / WIDTH) * 100}% + 10px)` }}
+          >
+            <div className="flex items-center justify-between gap-3 mb-1">
+              <span className="font-mono text-slate-500">{formatTime(hovered.timestamp)}</span>
+              <span className="font-bold" style={{ color: STATUS_COLORS[hovered.analysis.status] || '#64748b' }}>{hovered.analysis.status}</span>
+            </div>
+            {shownChannels.filter(c => hovered.telemetry[c.id] !== undefined).map(channel => (
+              <div key={channel.id} className="flex justify-between gap-3">
+                <span className="text-slate-500">{channel.label}</span>
+                <span className="font-mono text-slate-800">{formatChannelValue(channel, hovered.telemetry[channel.id])}{channel.unit && ` ${channel.unit}`}</span>
+              </div>
+            ))}
+            <p className="mt-1 text-slate-600 line-clamp-2">{hovered.analysis.observation}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Overview and brush */}
+      <svg
+        ref={overviewRef}
+        viewBox={`0 0 ${WIDTH} ${OVERVIEW_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-9 mt-1 select-none touch-none cursor-ew-resize"
+        onPointerDown={handleBrushDown}
+        onPointerMove={handleBrushMove}
+        onPointerUp={handleBrushUp}
+      >
+        <rect x={MARGIN.left} y={0} width={PLOT_WIDTH} height={OVERVIEW_HEIGHT} fill="#f8fafc" stroke="#e2e8f0" />
+        {bands.map(b => (
+          <rect key={`overview-${b.start}`} x={overviewX(b.start)} y={0} width={Math.max(1, overviewX(b.end) - overviewX(b.start))} height={OVERVIEW_HEIGHT} fill={BAND_COLORS[b.status]} />
+        ))}
+        <path d={overviewPath} fill="none" stroke="#10b981" strokeWidth="1.5" />
+        {isZoomed && (
+          <rect
+            x={overviewX(visible.start)}
+            y={1}
+            width={Math.max(2, overviewX(visible.end) - overviewX(visible.start))}
+            height={OVERVIEW_HEIGHT - 2}
+            fill="#6366f1"
+            fillOpacity="0.12"
+            stroke="#6366f1"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,37 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type MediaFit = 'cover' | 'contain';
+
+// Tracks an overlay container and computes where the media content actually
+// sits inside it after CSS object-fit, so normalized coordinates can be
+// placed on top of an image or video.
+export const useMediaLayout = (mediaSize: { width: number; height: number } | null, fit: MediaFit) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => {
+      const rect = entries[0].contentRect;
+      setContainerSize({ width: rect.width, height: rect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const content = (() => {
+    const { width: cw, height: ch } = containerSize;
+    if (!mediaSize || !mediaSize.width || !mediaSize.height || !cw || !ch) {
+      return { left: 0, top: 0, width: cw, height: ch };
+    }
+    const scale = fit === 'cover'
+      ? Math.max(cw / mediaSize.width, ch / mediaSize.height)
+      : Math.min(cw / mediaSize.width, ch / mediaSize.height);
+    const width = mediaSize.width * scale;
+    const height = mediaSize.height * scale;
+    return { left: (cw - width) / 2, top: (ch - height) / 2, width, height };
+  })();
+
+  return { containerRef, content };
+};
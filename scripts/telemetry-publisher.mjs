@@ -0,0 +1,51 @@
+// Stand-in for a bench sensor gateway. Publishes JSON telemetry samples over
+// WebSocket so the STREAM telemetry mode can be tested without hardware.
+//
+// Usage: npm run telemetry:mock -- [port] [intervalMs]
+// Then select "Stream" in the Lab Environment panel and connect to ws://localhost:<port>.
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.argv[2]) || 8765;
+const intervalMs = Number(process.argv[3]) || 1000;
+
+// Mirrors the nominal values and drift of the app's channel registry
+const CHANNELS = {
+  temperature: { nominal: 24.5, noise: 0.2, excursion: 0.8, precision: 3 },
+  pressure: { nominal: 101.3, noise: 0.1, excursion: 0.25, precision: 3 },
+  ph: { nominal: 7, noise: 0.02, excursion: 0, precision: 3 },
+  dissolvedOxygen: { nominal: 8.2, noise: 0.05, excursion: -0.1, precision: 3 },
+  stirrerRpm: { nominal: 300, noise: 4, excursion: 0, precision: 0 },
+  humidity: { nominal: 45, noise: 0.3, excursion: 0, precision: 2 },
+  flowRate: { nominal: 1.2, noise: 0.02, excursion: 0, precision: 3 },
+};
+
+const values = Object.fromEntries(Object.entries(CHANNELS).map(([id, c]) => [id, c.nominal]));
+let tick = 0;
+
+const wss = new WebSocketServer({ port });
+
+const nextSample = () => {
+  tick++;
+  // Slow drift with noise around the nominal value, plus a heating excursion every few minutes
+  const inExcursion = tick % 180 > 150;
+  const sample = { timestamp: Date.now() };
+  Object.entries(CHANNELS).forEach(([id, c]) => {
+    values[id] += (Math.random() - 0.5) * c.noise + (inExcursion ? c.excursion : 0) - (values[id] - c.nominal) * 0.01;
+    sample[id] = Number(values[id].toFixed(c.precision));
+  });
+  return sample;
+};
+
+setInterval(() => {
+  const message = JSON.stringify(nextSample());
+  wss.clients.forEach(client => {
+    if (client.readyState === client.OPEN) client.send(message);
+  });
+}, intervalMs);
+
+wss.on('connection', (socket, request) => {
+  console.log(`Client connected from ${request.socket.remoteAddress} (${wss.clients.size} total)`);
+  socket.on('close', () => console.log(`Client disconnected (${wss.clients.size} total)`));
+});
+
+console.log(`Telemetry publisher listening on ws://localhost:${port} (every ${intervalMs} ms)`);
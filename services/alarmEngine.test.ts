@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AlarmRule, ExperimentStatus } from '../types';
+import { AlarmEngineState, INITIAL_ALARM_STATE, evaluateAlarms, ratePerMinute } from './alarmEngine';
+
+const rule = (overrides: Partial<AlarmRule>): AlarmRule => ({
+  id: 'r1',
+  channel: 'temperature',
+  kind: 'ABOVE',
+  threshold: 30,
+  hysteresis: 1,
+  severity: ExperimentStatus.WARNING,
+  enabled: true,
+  ...overrides,
+});
+
+// Feeds temperature readings given as [time ms, value] through the engine
+const run = (rules: AlarmRule[], readings: [number, number][], state: AlarmEngineState = INITIAL_ALARM_STATE) =>
+  readings.reduce(
+    (acc, [timestamp, temperature]) => {
+      const next = evaluateAlarms(rules, { temperature }, timestamp, acc.state);
+      return { state: next.state, events: [...acc.events, ...next.events] };
+    },
+    { state, events: [] as ReturnType<typeof evaluateAlarms>['events'] }
+  );
+
+describe('ratePerMinute', () => {
+  it('needs at least a 5 s span', () => {
+    expect(ratePerMinute([
+      { timestamp: 0, data: { temperature: 20 } },
+      { timestamp: 4000, data: { temperature: 21 } },
+    ], 'temperature')).toBeNull();
+  });
+
+  it('measures change per minute between the first and last samples', () => {
+    expect(ratePerMinute([
+      { timestamp: 0, data: { temperature: 20 } },
+      { timestamp: 10_000, data: { pressure: 101 } },
+      { timestamp: 30_000, data: { temperature: 21 } },
+    ], 'temperature')).toBeCloseTo(2);
+  });
+});
+
+describe('evaluateAlarms', () => {
+  it('raises once and clears only past the hysteresis band', () => {
+    const { state, events } = run([rule({})], [[0, 31], [1000, 32], [2000, 29.5]]);
+    expect(events.map(e => e.type)).toEqual(['RAISED']);
+    expect(state.active.r1.raisedAt).toBe(0);
+
+    const cleared = run([rule({})], [[3000, 28.9]], state);
+    expect(cleared.events.map(e => e.type)).toEqual(['CLEARED']);
+    expect(cleared.state.active).toEqual({});
+  });
+
+  it('keeps only samples from the last 30 s in the rate window', () => {
+    const { state } = run([], [[0, 20], [20_000, 21], [40_000, 22]]);
+    expect(state.samples.map(s => s.timestamp)).toEqual([20_000, 40_000]);
+  });
+
+  it('raises a rate alarm from the window, not from older samples', () => {
+    const rateRule = rule({ kind: 'RATE', threshold: 5 });
+    // 10 °C in 20 s is 30 °C/min
+    expect(run([rateRule], [[0, 20], [20_000, 30]]).events.map(e => e.type)).toEqual(['RAISED']);
+    // The jump at 0 s has left the window by 60 s; the rest is flat
+    const later = run([rateRule], [[0, 20], [35_000, 30], [60_000, 30]]);
+    expect(later.state.active).toEqual({});
+  });
+
+  it('clears alarms whose rule was disabled', () => {
+    const { state } = run([rule({})], [[0, 35]]);
+    const { events } = run([rule({ enabled: false })], [[1000, 35]], state);
+    expect(events.map(e => e.type)).toEqual(['CLEARED']);
+  });
+});
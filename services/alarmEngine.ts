@@ -0,0 +1,116 @@
+import { AlarmEvent, AlarmRule, TelemetryAlarm, TelemetryData } from "../types";
+import { getChannel } from "./telemetryChannels";
+
+// Samples older than this are dropped from the rate-of-change window
+const RATE_WINDOW_MS = 30000;
+// Rates are not evaluated until the window spans at least this long
+const MIN_RATE_SPAN_MS = 5000;
+
+export interface TelemetrySample {
+  timestamp: number;
+  data: TelemetryData;
+}
+
+export interface AlarmEngineState {
+  samples: TelemetrySample[];
+  active: Record<string, TelemetryAlarm>;
+}
+
+export const INITIAL_ALARM_STATE: AlarmEngineState = {
+  samples: [],
+  active: {},
+};
+
+// Change per minute across the sample window, or null if the window is too short
+export const ratePerMinute = (samples: TelemetrySample[], channel: string): number | null => {
+  const withChannel = samples.filter(s => s.data[channel] !== undefined);
+  if (withChannel.length < 2) return null;
+  const first = withChannel[0];
+  const last = withChannel[withChannel.length - 1];
+  const span = last.timestamp - first.timestamp;
+  if (span < MIN_RATE_SPAN_MS) return null;
+  return ((last.data[channel] - first.data[channel]) / span) * 60000;
+};
+
+const describe = (rule: AlarmRule, value: number): string => {
+  const { label, unit, precision } = getChannel(rule.channel);
+  switch (rule.kind) {
+    case 'ABOVE':
+      return `${label} ${value.toFixed(precision)} ${unit} (limit > ${rule.threshold} ${unit})`;
+    case 'BELOW':
+      return `${label} ${value.toFixed(precision)} ${unit} (limit < ${rule.threshold} ${unit})`;
+    case 'RATE':
+      return `${label} changing ${value.toFixed(2)} ${unit}/min (limit ±${rule.threshold} ${unit}/min)`;
+  }
+};
+
+// Returns the measured value if the rule is in alarm, taking the rule's
+// current state into account for hysteresis, or null if it is not.
+const checkRule = (
+  rule: AlarmRule,
+  data: TelemetryData,
+  samples: TelemetrySample[],
+  isActive: boolean
+): number | null => {
+  const band = isActive ? rule.hysteresis : 0;
+  switch (rule.kind) {
+    case 'ABOVE': {
+      const value = data[rule.channel];
+      if (value === undefined) return null;
+      return value > rule.threshold - band ? value : null;
+    }
+    case 'BELOW': {
+      const value = data[rule.channel];
+      if (value === undefined) return null;
+      return value < rule.threshold + band ? value : null;
+    }
+    case 'RATE': {
+      const rate = ratePerMinute(samples, rule.channel);
+      if (rate === null) return null;
+      return Math.abs(rate) > rule.threshold - band ? rate : null;
+    }
+  }
+};
+
+// Evaluates every enabled rule against a new telemetry sample. Pure: returns
+// the next engine state plus the alarms raised or cleared by this sample.
+export const evaluateAlarms = (
+  rules: AlarmRule[],
+  data: TelemetryData,
+  timestamp: number,
+  prev: AlarmEngineState
+): { state: AlarmEngineState; events: AlarmEvent[] } => {
+  const samples = [...prev.samples, { timestamp, data }].filter(s => timestamp - s.timestamp <= RATE_WINDOW_MS);
+  const active: Record<string, TelemetryAlarm> = {};
+  const events: AlarmEvent[] = [];
+
+  rules.filter(rule => rule.enabled).forEach(rule => {
+    const existing = prev.active[rule.id];
+    const value = checkRule(rule, data, samples, !!existing);
+
+    if (value === null) {
+      if (existing) events.push({ type: 'CLEARED', alarm: existing, timestamp });
+      return;
+    }
+
+    const alarm: TelemetryAlarm = {
+      ruleId: rule.id,
+      channel: rule.channel,
+      severity: rule.severity,
+      message: describe(rule, value),
+      value,
+      raisedAt: existing ? existing.raisedAt : timestamp,
+    };
+    active[rule.id] = alarm;
+    if (!existing) events.push({ type: 'RAISED', alarm, timestamp });
+  });
+
+  // Alarms whose rule was disabled or deleted clear as well
+  Object.values(prev.active).forEach(alarm => {
+    if (!active[alarm.ruleId] && !events.some(e => e.alarm.ruleId === alarm.ruleId)) {
+      events.push({ type: 'CLEARED', alarm, timestamp });
+    }
+  });
+
+  return { state: { samples, active }, events };
+};
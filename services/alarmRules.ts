@@ -0,0 +1,54 @@
+import { AlarmRule, ExperimentStatus } from "../types";
+
+const STORAGE_KEY = 'bioreason.alarmRules';
+
+// Experiments loaded from the library use their id; free-form runs share this key
+export const CUSTOM_EXPERIMENT_ID = 'custom';
+
+export const createRuleId = (): string => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const DEFAULT_ALARM_RULES: AlarmRule[] = [
+  { id: 'temp-high-warn', channel: 'temperature', kind: 'ABOVE', threshold: 40, hysteresis: 1, severity: ExperimentStatus.WARNING, enabled: true },
+  { id: 'temp-high-crit', channel: 'temperature', kind: 'ABOVE', threshold: 60, hysteresis: 2, severity: ExperimentStatus.CRITICAL, enabled: true },
+  { id: 'temp-rate', channel: 'temperature', kind: 'RATE', threshold: 5, hysteresis: 1, severity: ExperimentStatus.WARNING, enabled: true },
+  { id: 'pressure-high', channel: 'pressure', kind: 'ABOVE', threshold: 120, hysteresis: 2, severity: ExperimentStatus.CRITICAL, enabled: true },
+];
+
+// Starting rule sets for the library experiments
+const PRESET_RULE_SETS: Record<string, AlarmRule[]> = {
+  titration: [
+    { id: 'temp-high-warn', channel: 'temperature', kind: 'ABOVE', threshold: 30, hysteresis: 0.5, severity: ExperimentStatus.WARNING, enabled: true },
+    { id: 'temp-low-warn', channel: 'temperature', kind: 'BELOW', threshold: 18, hysteresis: 0.5, severity: ExperimentStatus.WARNING, enabled: true },
+  ],
+  crystallization: [
+    { id: 'temp-rate', channel: 'temperature', kind: 'RATE', threshold: 1, hysteresis: 0.2, severity: ExperimentStatus.WARNING, enabled: true },
+    { id: 'temp-high-warn', channel: 'temperature', kind: 'ABOVE', threshold: 35, hysteresis: 1, severity: ExperimentStatus.WARNING, enabled: true },
+  ],
+  combustion: [
+    { id: 'temp-high-warn', channel: 'temperature', kind: 'ABOVE', threshold: 50, hysteresis: 2, severity: ExperimentStatus.WARNING, enabled: true },
+    { id: 'temp-high-crit', channel: 'temperature', kind: 'ABOVE', threshold: 80, hysteresis: 3, severity: ExperimentStatus.CRITICAL, enabled: true },
+    { id: 'temp-rate', channel: 'temperature', kind: 'RATE', threshold: 15, hysteresis: 2, severity: ExperimentStatus.CRITICAL, enabled: true },
+    { id: 'pressure-high', channel: 'pressure', kind: 'ABOVE', threshold: 110, hysteresis: 2, severity: ExperimentStatus.WARNING, enabled: true },
+  ],
+};
+
+const readStoredRuleSets = (): Record<string, AlarmRule[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Ignoring unreadable alarm rules in storage", e);
+    return {};
+  }
+};
+
+export const loadRuleSet = (experimentId: string): AlarmRule[] => {
+  const stored = readStoredRuleSets()[experimentId];
+  if (stored) return stored;
+  return PRESET_RULE_SETS[experimentId] || DEFAULT_ALARM_RULES;
+};
+
+export const saveRuleSet = (experimentId: string, rules: AlarmRule[]) => {
+  const ruleSets = readStoredRuleSets();
+  ruleSets[experimentId] = rules;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ruleSets));
+};
@@ -0,0 +1,90 @@
+import { ApiError } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AnalysisTimeoutError,
+  AuthError,
+  NetworkError,
+  QuotaError,
+  classifyError,
+  errorForStatus,
+  sleep,
+  withRetry,
+} from './analysisErrors';
+
+describe('errorForStatus', () => {
+  it.each([
+    [401, AuthError],
+    [403, AuthError],
+    [429, QuotaError],
+    [408, AnalysisTimeoutError],
+    [504, AnalysisTimeoutError],
+    [503, NetworkError],
+  ])('maps %i to the matching class', (status, errorClass) => {
+    expect(errorForStatus(status, 'failed')).toBeInstanceOf(errorClass);
+  });
+
+  it("maps Gemini's 400 API_KEY_INVALID to an auth error", () => {
+    const message = '{"error":{"code":400,"message":"API key not valid. Please pass a valid API key.","status":"INVALID_ARGUMENT","details":[{"reason":"API_KEY_INVALID"}]}}';
+    const error = errorForStatus(400, message);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.suggestion).toMatch(/GEMINI_API_KEY/);
+  });
+
+  it('leaves other 400s as non-retryable unknown errors', () => {
+    const error = errorForStatus(400, 'Request contains an invalid argument.');
+    expect(error.kind).toBe('UNKNOWN');
+    expect(error.retryable).toBe(false);
+  });
+});
+
+describe('classifyError', () => {
+  it('classifies SDK errors by status', () => {
+    expect(classifyError(new ApiError({ message: 'Resource exhausted', status: 429 }))).toBeInstanceOf(QuotaError);
+  });
+
+  it('passes abort errors through untouched', () => {
+    const abort = new DOMException('Aborted', 'AbortError');
+    expect(classifyError(abort)).toBe(abort);
+  });
+
+  it('treats a failed fetch as a network error', () => {
+    expect(classifyError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects at once for an already-aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(60_000, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('removes its abort listener once the delay has passed', async () => {
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    await sleep(1, controller.signal);
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors up to the attempt limit', async () => {
+    const run = vi.fn(async () => { throw new NetworkError(); });
+    await expect(withRetry(run, { maxAttempts: 3, baseDelayMs: 1 })).rejects.toBeInstanceOf(NetworkError);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const run = vi.fn(async () => { throw new AuthError(); });
+    await expect(withRetry(run, { baseDelayMs: 1 })).rejects.toBeInstanceOf(AuthError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the first successful attempt', async () => {
+    const run = vi.fn(async (attempt: number) => {
+      if (attempt === 0) throw new QuotaError();
+      return 'ok';
+    });
+    await expect(withRetry(run, { baseDelayMs: 1 })).resolves.toBe('ok');
+  });
+});
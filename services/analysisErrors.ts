@@ -0,0 +1,158 @@
+import { ApiError } from "@google/genai";
+import { AnalysisErrorInfo, AnalysisErrorKind } from "../types";
+
+// Base class for failures the UI can explain. `retryable` marks errors that
+// may succeed if the same request is sent again after a pause.
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+  readonly suggestion: string;
+
+  constructor(kind: AnalysisErrorKind, message: string, suggestion: string, retryable: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.suggestion = suggestion;
+  }
+
+  toInfo(): AnalysisErrorInfo {
+    return { kind: this.kind, message: this.message, suggestion: this.suggestion, retryable: this.retryable };
+  }
+}
+
+export class AuthError extends AnalysisError {
+  constructor(message = "The model service rejected the API key.", cause?: unknown) {
+    super('AUTH', message,
+      "Check GEMINI_API_KEY in .env.local and that the key can use this model, or switch to another provider.",
+      false, cause);
+  }
+}
+
+export class QuotaError extends AnalysisError {
+  constructor(message = "Quota or rate limit exceeded.", cause?: unknown) {
+    super('RATE_LIMIT', message,
+      "Wait a minute, then lengthen the monitoring interval, enable Skip Unchanged Frames or use Low reasoning depth.",
+      true, cause);
+  }
+}
+
+export class SafetyBlockError extends AnalysisError {
+  constructor(message = "The request was blocked by the model's safety filters.", cause?: unknown) {
+    super('SAFETY', message,
+      "Describe the experiment in neutral laboratory terms and use regions of interest to crop out people and unrelated objects.",
+      false, cause);
+  }
+}
+
+export class AnalysisTimeoutError extends AnalysisError {
+  constructor(message = "The model did not respond in time.", cause?: unknown) {
+    super('TIMEOUT', message,
+      "Use Low reasoning depth or fewer frames per analysis.",
+      true, cause);
+  }
+}
+
+export class MalformedResponseError extends AnalysisError {
+  // Model output as received, kept for debugging
+  readonly raw?: string;
+
+  constructor(message = "The model returned a response that is not valid JSON.", cause?: unknown, raw?: string) {
+    super('MALFORMED_RESPONSE', message,
+      "Try again. If it keeps happening, switch to High reasoning depth or another model.",
+      true, cause);
+    this.raw = raw;
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(message = "Could not reach the model service.", cause?: unknown) {
+    super('NETWORK', message,
+      "Check your connection. For the local provider, make sure the server is running at the configured endpoint and allows browser requests (CORS).",
+      true, cause);
+  }
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Maps an HTTP status from any provider to the matching error class
+export const errorForStatus = (status: number, message: string, cause?: unknown): AnalysisError => {
+  if (status === 401 || status === 403) return new AuthError(message, cause);
+  // Gemini reports a bad key as 400 INVALID_ARGUMENT with reason API_KEY_INVALID
+  if (status === 400 && /API_KEY_INVALID|API key not valid/i.test(message)) return new AuthError(undefined, cause);
+  if (status === 429) return new QuotaError(message, cause);
+  if (status === 408 || status === 504) return new AnalysisTimeoutError(message, cause);
+  if (status >= 500) return new NetworkError(message, cause);
+  return new AnalysisError('UNKNOWN', message, "Check the request settings and try again.", false, cause);
+};
+
+// Turns whatever a provider threw into an AnalysisError. Abort errors are
+// passed through untouched so cancellation is not reported as a failure.
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof AnalysisError || isAbort(error)) return error;
+  if (error instanceof ApiError) return errorForStatus(error.status, error.message, error);
+  if (error instanceof SyntaxError) return new MalformedResponseError(undefined, error);
+  // fetch reports connection failures as a bare TypeError
+  if (error instanceof TypeError && /fetch|network/i.test(error.message)) return new NetworkError(undefined, error);
+  return error;
+};
+
+// Message of a thrown value, or the fallback when it has none
+export const errorMessage = (error: unknown, fallback: string): string =>
+  (error instanceof Error ? error.message : typeof error === 'string' ? error : '') || fallback;
+
+// Shape shown in the error panel for any thrown value
+export const toErrorInfo = (error: unknown): AnalysisErrorInfo => {
+  if (error instanceof AnalysisError) return error.toInfo();
+  return {
+    kind: 'UNKNOWN',
+    message: errorMessage(error, "An unexpected error occurred."),
+    suggestion: "Try again. If the problem persists, check the browser console for details.",
+    retryable: false,
+  };
+};
+
+interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+// Waits `ms`, rejecting with an AbortError as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cancelled = () => new DOMException("Analysis cancelled.", 'AbortError');
+    if (signal?.aborted) {
+      reject(cancelled());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Retries retryable AnalysisErrors with exponential backoff and full jitter:
+// attempt n waits a random time up to min(maxDelay, baseDelay * 2^n).
+export const withRetry = async <T>(
+  run: (attempt: number) => Promise<T>,
+  { maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 10000, signal }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      const retryable = error instanceof AnalysisError && error.retryable;
+      if (!retryable || attempt + 1 >= maxAttempts || signal?.aborted) throw error;
+      const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Analysis attempt ${attempt + 1} failed (${error.kind}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
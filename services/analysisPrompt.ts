@@ -0,0 +1,55 @@
+import { AnalysisFrame, AnalysisResult } from "../types";
+
+// Prompt text shared by every analysis provider so that swapping models
+// does not change what the model is asked to do.
+
+export const SYSTEM_INSTRUCTION = "You are BioReason, a lab partner. Analyze the image against the provided context. If an anomaly is detected, use your deep reasoning to deduce the chemical or physical cause. Output JSON with keys: status, observation, deduction, recommendation, confidence (0 to 1), hazards (list of {category: THERMAL | PRESSURE | TOXIC_GAS | FIRE | SPILL, severity: LOW | MEDIUM | HIGH, description}; empty if none) and measurements (list of {property, value, unit, location} for measurable properties such as color, phase, turbidity, liquid level or bubble rate) and annotations (list of {label, x, y, width, height} marking each anomaly in the latest image, coordinates as fractions 0 to 1 of the image size from the top-left; omit width and height to mark a point). When a protocol step is given, also output stepComplete (true only when the step's success criteria are met). When reference images of the expected state are given, also output comparison (what in the latest frame matches and what deviates from them).";
+
+export const CHAT_INSTRUCTION = "You are BioReason, a lab partner, answering the scientist's follow-up questions about an analysis you made. Ground every answer in the analyzed image, the experiment context, the telemetry recorded with it and your earlier analysis. For hypothetical changes (e.g. lowering the heat), reason about the likely chemical or physical effect and any safety implications. If the scientist attaches a newer frame, compare it with the analyzed one. Answer in plain text, concisely, and say when you are unsure.";
+
+// Text that anchors a follow-up conversation to one analysis
+export const buildChatGrounding = (context: string, result: AnalysisResult, telemetryText: string): string => {
+  const lines = [
+    `[EXPERIMENT CONTEXT]\n${context || '(none given)'}`,
+    `[TELEMETRY AT ANALYSIS]\n${telemetryText}`,
+    `[YOUR ANALYSIS]`,
+    `Status: ${result.status}`,
+    `Observation: ${result.observation}`,
+    `Deduction: ${result.deduction}`,
+    `Recommendation: ${result.recommendation}`,
+  ];
+  if (result.comparison) {
+    lines.push(`Comparison with expected state: ${result.comparison}`);
+  }
+  if (result.hazards && result.hazards.length > 0) {
+    lines.push(`Hazards: ${result.hazards.map(h => `${h.category} (${h.severity}): ${h.description}`).join('; ')}`);
+  }
+  if (result.measurements && result.measurements.length > 0) {
+    lines.push(`Measurements: ${result.measurements.map(m => `${m.property} = ${m.value}${m.unit ? ` ${m.unit}` : ''}`).join('; ')}`);
+  }
+  return lines.join('\n');
+};
+
+const TEMPORAL_INSTRUCTION = "The images are consecutive frames of the same scene in chronological order, each labelled with its time relative to the latest frame. Compare them: describe what changed between frames (color, turbidity, phase, level, gas evolution, motion) and how fast, and base the status on the latest frame in light of that trend. Mention in the observation if nothing changed.";
+
+const REFERENCE_INSTRUCTION = "The images labelled as references show the expected state of this experiment; they are not live. Compare the latest live frame against them explicitly (color, turbidity, phase, level, crystal or bubble formation) and describe the match or deviation in comparison. Base the status on deviations that matter for safety or progress, not on differences in framing or lighting.";
+
+export const buildUserPrompt = (context: string, frameCount = 1, referenceCount = 0): string => {
+  const references = referenceCount > 0 ? `\n\n${REFERENCE_INSTRUCTION}` : '';
+  return frameCount > 1
+    ? `Experimental Context: ${context}\n\n${TEMPORAL_INSTRUCTION}${references}\n\nAnalyze the ${frameCount} frames against this context.`
+    : `Experimental Context: ${context}${references}\n\nAnalyze the ${referenceCount > 0 ? 'live image' : 'image'} against this context.`;
+};
+
+// Text label placed before each reference image part
+export const referenceLabel = (label: string, index: number, count: number): string =>
+  `Reference ${index + 1} of ${count} (expected state, not live)${label ? `: ${label}` : ''}`;
+
+export const LIVE_FRAME_LABEL = "Live frame (latest)";
+
+// Text label placed before each image part in a multi-frame request
+export const frameLabel = (frames: AnalysisFrame[], index: number): string => {
+  const latest = frames[frames.length - 1].capturedAt;
+  const offset = (frames[index].capturedAt - latest) / 1000;
+  return `Frame ${index + 1} of ${frames.length} (t = ${offset === 0 ? '0.0' : offset.toFixed(1)} s${index === frames.length - 1 ? ', latest' : ''})`;
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createAnalysisQueue } from './analysisQueue';
+
+// A job the test settles by hand; `ignoreAbort` models a provider that keeps running
+const deferredJob = <T>({ ignoreAbort = false } = {}) => {
+  let resolve!: (value: T) => void;
+  let started = false;
+  const run = (signal: AbortSignal) => {
+    started = true;
+    return new Promise<T>((res, rej) => {
+      resolve = res;
+      if (!ignoreAbort) signal.addEventListener('abort', () => rej(new DOMException('Aborted', 'AbortError')));
+    });
+  };
+  return { run, resolve: (value: T) => resolve(value), isStarted: () => started };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createAnalysisQueue', () => {
+  it('resolves a finished job as DONE', async () => {
+    const queue = createAnalysisQueue();
+    await expect(queue.submit(1, async () => 'result')).resolves.toEqual({ status: 'DONE', value: 'result' });
+  });
+
+  it('marks an older capture that finishes after a newer one as STALE', async () => {
+    const queue = createAnalysisQueue({ maxInFlight: 2 });
+    const older = deferredJob<string>();
+    const newer = deferredJob<string>();
+    const olderOutcome = queue.submit(1, older.run);
+    const newerOutcome = queue.submit(2, newer.run);
+
+    newer.resolve('new');
+    await expect(newerOutcome).resolves.toEqual({ status: 'DONE', value: 'new' });
+    older.resolve('old');
+    await expect(olderOutcome).resolves.toEqual({ status: 'STALE' });
+  });
+
+  it('keeps only the newest waiting job', async () => {
+    const queue = createAnalysisQueue({ maxInFlight: 1 });
+    const running = deferredJob<string>();
+    const waiting = deferredJob<string>();
+    const newest = deferredJob<string>();
+    queue.submit(1, running.run);
+    const waitingOutcome = queue.submit(2, waiting.run);
+    const newestOutcome = queue.submit(3, newest.run);
+
+    await expect(waitingOutcome).resolves.toEqual({ status: 'STALE' });
+    expect(waiting.isStarted()).toBe(false);
+    running.resolve('first');
+    await flush();
+    expect(newest.isStarted()).toBe(true);
+    newest.resolve('latest');
+    await expect(newestOutcome).resolves.toEqual({ status: 'DONE', value: 'latest' });
+  });
+
+  it('resolves cancelled jobs at once but holds their slots until they settle', async () => {
+    const activity: number[] = [];
+    const queue = createAnalysisQueue({ maxInFlight: 1, onActivity: active => activity.push(active) });
+    const stubborn = deferredJob<string>({ ignoreAbort: true });
+    const cancelled = queue.submit(1, stubborn.run);
+
+    queue.cancelAll();
+    await expect(cancelled).resolves.toEqual({ status: 'CANCELLED' });
+
+    const next = deferredJob<string>();
+    const nextOutcome = queue.submit(2, next.run);
+    await flush();
+    expect(next.isStarted()).toBe(false);
+
+    stubborn.resolve('late');
+    await flush();
+    expect(next.isStarted()).toBe(true);
+    next.resolve('fresh');
+    await expect(nextOutcome).resolves.toEqual({ status: 'DONE', value: 'fresh' });
+    expect(activity[activity.length - 1]).toBe(0);
+  });
+
+  it('rejects with the error of a failed current job', async () => {
+    const queue = createAnalysisQueue();
+    await expect(queue.submit(1, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+  });
+});
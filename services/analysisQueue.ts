@@ -0,0 +1,100 @@
+// Runs analysis requests with a cap on concurrency. Every request carries the
+// capture time of its frame so results are applied in capture order: a
+// response for an older frame that arrives after a newer one is dropped.
+
+export const MAX_IN_FLIGHT_ANALYSES = 2;
+
+export type AnalysisOutcome<T> =
+  | { status: 'DONE'; value: T }
+  // A newer capture finished first, or replaced this one while it was waiting
+  | { status: 'STALE' }
+  | { status: 'CANCELLED' };
+
+interface QueuedJob {
+  capturedAt: number;
+  controller: AbortController;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  resolve: (outcome: AnalysisOutcome<unknown>) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface AnalysisQueue {
+  submit: <T>(capturedAt: number, run: (signal: AbortSignal) => Promise<T>) => Promise<AnalysisOutcome<T>>;
+  // Aborts running requests and discards waiting ones
+  cancelAll: () => void;
+}
+
+interface AnalysisQueueOptions {
+  maxInFlight?: number;
+  // Called with the number of running plus waiting requests whenever it changes
+  onActivity?: (active: number) => void;
+}
+
+export const createAnalysisQueue = ({
+  maxInFlight = MAX_IN_FLIGHT_ANALYSES,
+  onActivity,
+}: AnalysisQueueOptions = {}): AnalysisQueue => {
+  let pending: QueuedJob[] = [];
+  const running = new Set<QueuedJob>();
+  let latestApplied = 0;
+
+  const notify = () => onActivity?.(pending.length + running.size);
+
+  const start = (job: QueuedJob) => {
+    running.add(job);
+    const { signal } = job.controller;
+    job.run(signal)
+      .then(
+        value => {
+          if (signal.aborted) {
+            job.resolve({ status: 'CANCELLED' });
+          } else if (job.capturedAt < latestApplied) {
+            job.resolve({ status: 'STALE' });
+          } else {
+            latestApplied = job.capturedAt;
+            job.resolve({ status: 'DONE', value });
+          }
+        },
+        error => {
+          if (signal.aborted) job.resolve({ status: 'CANCELLED' });
+          else if (job.capturedAt < latestApplied) job.resolve({ status: 'STALE' });
+          else job.reject(error);
+        }
+      )
+      .finally(() => {
+        running.delete(job);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    while (running.size < maxInFlight && pending.length > 0) {
+      start(pending.shift()!);
+    }
+    notify();
+  };
+
+  return {
+    submit: <T>(capturedAt: number, run: (signal: AbortSignal) => Promise<T>) =>
+      new Promise<AnalysisOutcome<T>>((resolve, reject) => {
+        // Only the newest capture is worth waiting for a free slot
+        pending.forEach(job => job.resolve({ status: 'STALE' }));
+        // The job resolves with whatever `run` returned, which is a T
+        const resolveJob = resolve as (outcome: AnalysisOutcome<unknown>) => void;
+        pending = [{ capturedAt, controller: new AbortController(), run, resolve: resolveJob, reject }];
+        pump();
+      }),
+
+    cancelAll: () => {
+      pending.forEach(job => job.resolve({ status: 'CANCELLED' }));
+      pending = [];
+      // Settle immediately rather than waiting for providers that ignore the
+      // signal, but keep their slots until they actually finish
+      running.forEach(job => {
+        job.controller.abort();
+        job.resolve({ status: 'CANCELLED' });
+      });
+      notify();
+    },
+  };
+};
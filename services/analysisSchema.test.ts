@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ExperimentStatus } from '../types';
+import { MalformedResponseError } from './analysisErrors';
+import { parseAnalysisResult, validateAnalysisResult } from './analysisSchema';
+
+const valid = {
+  status: 'NORMAL',
+  observation: 'Clear solution',
+  deduction: 'No reaction yet',
+  recommendation: 'Continue',
+  confidence: 0.8,
+  hazards: [],
+  measurements: [],
+  annotations: [],
+};
+
+describe('validateAnalysisResult', () => {
+  it('accepts a complete result without repairs', () => {
+    const check = validateAnalysisResult(valid);
+    expect(check.value).toEqual(valid);
+    expect(check.issues).toEqual([]);
+    expect(check.repairs).toEqual([]);
+  });
+
+  it('leaves a missing confidence unset instead of failing', () => {
+    const { confidence, ...rest } = valid;
+    const check = validateAnalysisResult(rest);
+    expect(check.issues).toEqual([]);
+    expect(check.value).not.toBeNull();
+    expect(check.value!.confidence).toBeUndefined();
+    expect(check.repairs).toContain('result.confidence: missing, left unset');
+  });
+
+  it('reads a confidence above 1 as a percentage', () => {
+    expect(validateAnalysisResult({ ...valid, confidence: 85 }).value!.confidence).toBeCloseTo(0.85);
+  });
+
+  it('repairs omitted lists to empty ones', () => {
+    const { hazards, measurements, annotations, ...rest } = valid;
+    const check = validateAnalysisResult(rest);
+    expect(check.value).toMatchObject({ hazards: [], measurements: [], annotations: [] });
+    expect(check.repairs).toHaveLength(3);
+  });
+
+  it('maps enum aliases and unwraps a nested result', () => {
+    const check = validateAnalysisResult({ analysis: { ...valid, status: 'danger' } });
+    expect(check.value!.status).toBe(ExperimentStatus.CRITICAL);
+    expect(check.repairs).toContain('unwrapped result from "analysis"');
+  });
+
+  it('drops invalid list items and clamps out-of-range numbers', () => {
+    const check = validateAnalysisResult({
+      ...valid,
+      hazards: [{ category: 'heat', severity: 'severe', description: 'Hot plate' }, { category: 'LASER' }],
+      annotations: [{ label: 'bubble', x: 1.4, y: 0.2 }],
+    });
+    expect(check.value!.hazards).toEqual([{ category: 'THERMAL', severity: 'HIGH', description: 'Hot plate' }]);
+    expect(check.value!.annotations).toEqual([{ label: 'bubble', x: 1, y: 0.2 }]);
+  });
+
+  it('fails when a required text field is missing', () => {
+    const { observation, ...rest } = valid;
+    const check = validateAnalysisResult(rest);
+    expect(check.value).toBeNull();
+    expect(check.issues).toContain('result.observation is missing');
+  });
+
+  it('does not accept INVALID as a model status', () => {
+    expect(validateAnalysisResult({ ...valid, status: 'INVALID' }).value).toBeNull();
+  });
+});
+
+describe('parseAnalysisResult', () => {
+  it('reads JSON inside a markdown code fence', () => {
+    expect(parseAnalysisResult('```json\n' + JSON.stringify(valid) + '\n```').status).toBe(ExperimentStatus.NORMAL);
+  });
+
+  it('throws a MalformedResponseError carrying the raw text', () => {
+    try {
+      parseAnalysisResult('not json');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MalformedResponseError);
+      expect((error as MalformedResponseError).raw).toBe('not json');
+    }
+  });
+});
@@ -0,0 +1,271 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisResult, ExperimentStatus } from "../types";
+import { MalformedResponseError } from "./analysisErrors";
+import { HAZARD_CATEGORIES, HAZARD_SEVERITIES } from "./hazards";
+
+// Single description of a model response. Gemini receives it as the
+// responseSchema; every provider's output is checked against it at runtime.
+export const ANALYSIS_RESULT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    status: {
+      type: Type.STRING,
+      enum: [ExperimentStatus.NORMAL, ExperimentStatus.WARNING, ExperimentStatus.CRITICAL],
+      description: "The safety status of the experiment.",
+    },
+    observation: {
+      type: Type.STRING,
+      description: "Brief visual description of the experiment state.",
+    },
+    deduction: {
+      type: Type.STRING,
+      description: "Detailed deductive reasoning for the observed state.",
+    },
+    recommendation: {
+      type: Type.STRING,
+      description: "Actionable advice for the scientist.",
+    },
+    confidence: {
+      type: Type.NUMBER,
+      minimum: 0,
+      maximum: 1,
+      description: "Confidence in the status assessment, from 0 (guess) to 1 (certain).",
+    },
+    hazards: {
+      type: Type.ARRAY,
+      description: "Hazards currently present or developing. Empty if none.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: HAZARD_CATEGORIES },
+          severity: { type: Type.STRING, enum: HAZARD_SEVERITIES },
+          description: { type: Type.STRING, description: "What the hazard is and where." },
+        },
+        required: ["category", "severity", "description"],
+      },
+    },
+    measurements: {
+      type: Type.ARRAY,
+      description: "Measurable visual properties such as color, phase, turbidity, liquid level or bubble rate.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          property: { type: Type.STRING, description: "Property name, e.g. color or phase." },
+          value: { type: Type.STRING, description: "Observed value, e.g. amber or 45." },
+          unit: { type: Type.STRING, description: "Unit for numeric values, e.g. mL." },
+          location: { type: Type.STRING, description: "Where in the image it was read." },
+        },
+        required: ["property", "value"],
+      },
+    },
+    annotations: {
+      type: Type.ARRAY,
+      description: "Location of each anomaly or notable feature in the latest image. Empty if nothing needs pointing out.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING, description: "Short name of what is marked, e.g. precipitate." },
+          x: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Left edge (or point) as a fraction of image width." },
+          y: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Top edge (or point) as a fraction of image height." },
+          width: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Box width as a fraction of image width; omit for a point." },
+          height: { type: Type.NUMBER, minimum: 0, maximum: 1, description: "Box height as a fraction of image height; omit for a point." },
+        },
+        required: ["label", "x", "y"],
+      },
+    },
+    stepComplete: {
+      type: Type.BOOLEAN,
+      description: "Only when a protocol step is given: true when its success criteria are met.",
+    },
+    comparison: {
+      type: Type.STRING,
+      description: "Only when reference images are given: what in the latest frame matches and what deviates from the expected state.",
+    },
+  },
+  required: ["status", "observation", "deduction", "recommendation", "confidence", "hazards", "measurements", "annotations"],
+};
+
+// Gemini is asked for a confidence, but a reply without one is still usable:
+// the field is optional on AnalysisResult, so it is left unset
+const RUNTIME_SCHEMA: Schema = {
+  ...ANALYSIS_RESULT_SCHEMA,
+  required: ANALYSIS_RESULT_SCHEMA.required?.filter(key => key !== 'confidence'),
+};
+
+// Words models use instead of the enum values; mapped when the target is allowed
+const ENUM_ALIASES: Record<string, string> = {
+  OK: ExperimentStatus.NORMAL,
+  SAFE: ExperimentStatus.NORMAL,
+  STABLE: ExperimentStatus.NORMAL,
+  CAUTION: ExperimentStatus.WARNING,
+  WARN: ExperimentStatus.WARNING,
+  ALERT: ExperimentStatus.WARNING,
+  DANGER: ExperimentStatus.CRITICAL,
+  DANGEROUS: ExperimentStatus.CRITICAL,
+  EMERGENCY: ExperimentStatus.CRITICAL,
+  MODERATE: 'MEDIUM',
+  SEVERE: 'HIGH',
+  HEAT: 'THERMAL',
+  TEMPERATURE: 'THERMAL',
+  GAS: 'TOXIC_GAS',
+  TOXIC: 'TOXIC_GAS',
+  FUMES: 'TOXIC_GAS',
+  LEAK: 'SPILL',
+};
+
+export interface SchemaCheck<T> {
+  // null when the payload could not be repaired
+  value: T | null;
+  issues: string[];
+  repairs: string[];
+}
+
+// Returns the (possibly repaired) value, or undefined after recording an issue
+const checkValue = (value: unknown, schema: Schema, path: string, issues: string[], repairs: string[]): unknown => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path} is not an object`);
+        return undefined;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      let complete = true;
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const required = !!schema.required?.includes(key);
+        if (input[key] === undefined || input[key] === null) {
+          // An omitted list is read as "nothing to report"
+          if (required && propSchema.type === Type.ARRAY) {
+            repairs.push(`${path}.${key}: missing, using an empty list`);
+            output[key] = [];
+          } else if (required) {
+            issues.push(`${path}.${key} is missing`);
+            complete = false;
+          }
+          continue;
+        }
+        const checked = checkValue(input[key], propSchema, `${path}.${key}`, required ? issues : repairs, repairs);
+        if (checked !== undefined) output[key] = checked;
+        else if (required) complete = false;
+      }
+      const extra = Object.keys(input).filter(key => !(key in (schema.properties || {})));
+      if (extra.length > 0) repairs.push(`${path}: dropped unexpected ${extra.join(', ')}`);
+      return complete ? output : undefined;
+    }
+
+    case Type.STRING: {
+      if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+        issues.push(`${path} is not a string`);
+        return undefined;
+      }
+      if (typeof value !== 'string') repairs.push(`${path}: converted ${typeof value} to string`);
+      const text = String(value).trim();
+      if (!schema.enum || schema.enum.includes(text)) return text;
+
+      const upper = text.toUpperCase().replace(/[\s-]+/g, '_');
+      const mapped = schema.enum.includes(upper) ? upper : ENUM_ALIASES[upper];
+      if (mapped && schema.enum.includes(mapped)) {
+        repairs.push(`${path}: mapped "${text}" to ${mapped}`);
+        return mapped;
+      }
+      issues.push(`${path} "${text}" is not one of ${schema.enum.join(', ')}`);
+      return undefined;
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      let num = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+      if (!Number.isFinite(num)) {
+        issues.push(`${path} is not a number`);
+        return undefined;
+      }
+      if (typeof value !== 'number') repairs.push(`${path}: parsed number from "${value}"`);
+      if (schema.type === Type.INTEGER && !Number.isInteger(num)) num = Math.round(num);
+      if (schema.minimum !== undefined && num < schema.minimum) {
+        repairs.push(`${path}: clamped ${num} to ${schema.minimum}`);
+        num = schema.minimum;
+      }
+      if (schema.maximum !== undefined && num > schema.maximum) {
+        repairs.push(`${path}: clamped ${num} to ${schema.maximum}`);
+        num = schema.maximum;
+      }
+      return num;
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        repairs.push(`${path}: parsed boolean from "${value}"`);
+        return value === 'true';
+      }
+      issues.push(`${path} is not a boolean`);
+      return undefined;
+    }
+
+    case Type.ARRAY: {
+      const items = Array.isArray(value) ? value : [value];
+      if (!Array.isArray(value)) repairs.push(`${path}: wrapped single value in a list`);
+      // Invalid items are dropped rather than failing the whole response
+      return items
+        .map((item, i) => checkValue(item, schema.items || {}, `${path}[${i}]`, repairs, repairs))
+        .filter(item => item !== undefined);
+    }
+
+    default:
+      return value;
+  }
+};
+
+export const validateAnalysisResult = (value: unknown): SchemaCheck<AnalysisResult> => {
+  const issues: string[] = [];
+  const repairs: string[] = [];
+  let candidate = value;
+
+  // Some models wrap the object, e.g. {"analysis": {...}}
+  if (candidate && typeof candidate === 'object' && !Array.isArray(candidate) && !('status' in candidate)) {
+    const nested = Object.entries(candidate).find(([, v]) => v && typeof v === 'object' && 'status' in v);
+    if (nested) {
+      repairs.push(`unwrapped result from "${nested[0]}"`);
+      candidate = nested[1];
+    }
+  }
+
+  if (typeof candidate === 'object' && candidate !== null) {
+    const confidence = (candidate as Record<string, unknown>).confidence;
+    if (confidence === undefined || confidence === null) {
+      repairs.push('result.confidence: missing, left unset');
+    } else if (typeof confidence === 'number' && confidence > 1 && confidence <= 100) {
+      // Confidence given as a percentage
+      repairs.push(`result.confidence: read ${confidence} as a percentage`);
+      candidate = { ...candidate, confidence: confidence / 100 };
+    }
+  }
+
+  const checked = checkValue(candidate, RUNTIME_SCHEMA, 'result', issues, repairs);
+  return { value: issues.length === 0 ? (checked as AnalysisResult) : null, issues, repairs };
+};
+
+// Parses raw model text into a validated AnalysisResult. Throws a
+// MalformedResponseError carrying the raw text when it cannot be repaired.
+export const parseAnalysisResult = (raw: string): AnalysisResult => {
+  // Local models often wrap JSON in a markdown code fence
+  const fenced = raw.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  const text = fenced ? fenced[1] : raw;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new MalformedResponseError(undefined, error, raw);
+  }
+
+  const { value, issues, repairs } = validateAnalysisResult(parsed);
+  if (!value) {
+    throw new MalformedResponseError(`The model response failed validation: ${issues.join('; ')}.`, undefined, raw);
+  }
+  if (fenced) repairs.unshift('removed markdown code fence');
+  if (repairs.length > 0) {
+    console.warn("Repaired model response:", repairs, raw);
+  }
+  return value;
+};
@@ -0,0 +1,34 @@
+import { AnalysisFrame, AnalysisProvider, AnalysisResult, ChatRequest, ProviderId, ProviderSettings, ReferenceFrame, ThinkingLevel } from "../types";
+import { geminiProvider } from "./geminiService";
+import { localModelProvider } from "./localModelService";
+import { mockProvider } from "./mockService";
+
+export const PROVIDERS: Record<ProviderId, AnalysisProvider> = {
+  GEMINI: geminiProvider,
+  LOCAL: localModelProvider,
+  MOCK: mockProvider,
+};
+
+// Fall back to the mock provider when no Gemini key is configured so the UI is usable offline
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  id: process.env.API_KEY ? 'GEMINI' : 'MOCK',
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'llava',
+};
+
+export const analyzeExperiment = async (
+  context: string,
+  frames: AnalysisFrame[],
+  thinkingLevel: ThinkingLevel,
+  settings: ProviderSettings,
+  signal?: AbortSignal,
+  references: ReferenceFrame[] = []
+): Promise<AnalysisResult> => {
+  const provider = PROVIDERS[settings.id];
+  return provider.analyze({ context, frames, thinkingLevel, signal, references }, settings);
+};
+
+export const chatAboutAnalysis = async (request: ChatRequest, settings: ProviderSettings): Promise<string> => {
+  const provider = PROVIDERS[settings.id];
+  return provider.chat(request, settings);
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyzedSnapshot, DEFAULT_CHANGE_DETECTION, decideAnalysis, telemetryDifference } from './changeDetection';
+import { resolveChannels } from './telemetryChannels';
+
+const channels = resolveChannels(['temperature', 'pressure']);
+const signature = (value: number) => new Float32Array(8).fill(value);
+
+const last: AnalyzedSnapshot = {
+  signature: signature(0.5),
+  telemetry: { temperature: 25, pressure: 101 },
+  analyzedAt: 0,
+};
+
+const decide = (sig: Float32Array | null, telemetry = last.telemetry, now = 1000) =>
+  decideAnalysis(last, sig, telemetry, channels, DEFAULT_CHANGE_DETECTION, now);
+
+describe('telemetryDifference', () => {
+  it('scales each change by the channel range and takes the largest', () => {
+    // 2.5 °C of a 25 °C range; 1.5 kPa of a 15 kPa range
+    expect(telemetryDifference({ temperature: 25, pressure: 100 }, { temperature: 27.5, pressure: 101.5 }, channels)).toBeCloseTo(0.1);
+  });
+
+  it('falls back to the previous value for unbounded channels', () => {
+    expect(telemetryDifference({ custom: 50 }, { custom: 55 }, resolveChannels(['custom']))).toBeCloseTo(0.1);
+  });
+});
+
+describe('decideAnalysis', () => {
+  it('analyzes the first frame', () => {
+    expect(decideAnalysis(null, null, {}, channels, DEFAULT_CHANGE_DETECTION, 0).reason).toBe('FIRST_FRAME');
+  });
+
+  it('skips an unchanged frame', () => {
+    expect(decide(signature(0.51))).toMatchObject({ analyze: false, reason: 'UNCHANGED' });
+  });
+
+  it('analyzes on a visual change', () => {
+    expect(decide(signature(0.6)).reason).toBe('VISUAL_CHANGE');
+  });
+
+  it('treats an unreadable frame as changed', () => {
+    expect(decide(null)).toMatchObject({ analyze: true, visualChange: 1 });
+  });
+
+  it('analyzes on a telemetry change', () => {
+    expect(decide(signature(0.5), { temperature: 26, pressure: 101 }).reason).toBe('TELEMETRY_CHANGE');
+  });
+
+  it('analyzes once the last result is too old', () => {
+    expect(decide(signature(0.5), last.telemetry, DEFAULT_CHANGE_DETECTION.maxStalenessMs).reason).toBe('STALE');
+  });
+});
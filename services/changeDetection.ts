@@ -0,0 +1,126 @@
+import { ChangeDetectionSettings, RegionOfInterest, TelemetryChannel, TelemetryData } from "../types";
+import { regionsBounds } from "./regionsOfInterest";
+
+// Frames are compared as tiny grayscale thumbnails, which ignores sensor
+// noise and compression artifacts but still catches color and level changes.
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+export type FrameSignature = Float32Array;
+
+export interface AnalyzedSnapshot {
+  signature: FrameSignature | null;
+  telemetry: TelemetryData;
+  analyzedAt: number;
+}
+
+export interface ChangeDecision {
+  analyze: boolean;
+  reason: 'FIRST_FRAME' | 'VISUAL_CHANGE' | 'TELEMETRY_CHANGE' | 'STALE' | 'UNCHANGED';
+  visualChange: number;
+  telemetryChange: number;
+}
+
+export const DEFAULT_CHANGE_DETECTION: ChangeDetectionSettings = {
+  enabled: true,
+  visualThreshold: 0.03,
+  telemetryThreshold: 0.02,
+  maxStalenessMs: 60000,
+};
+
+// Threshold pairs offered in the sidebar, from least to most sensitive
+export const CHANGE_SENSITIVITY_PRESETS: { label: string; visualThreshold: number; telemetryThreshold: number }[] = [
+  { label: 'Low', visualThreshold: 0.06, telemetryThreshold: 0.04 },
+  { label: 'Medium', visualThreshold: 0.03, telemetryThreshold: 0.02 },
+  { label: 'High', visualThreshold: 0.015, telemetryThreshold: 0.01 },
+];
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+// Downsampled luminance of the video frame, restricted to the regions of
+// interest when there are any. Returns null if the frame cannot be read.
+export const computeFrameSignature = (
+  video: HTMLVideoElement,
+  regions: RegionOfInterest[] = []
+): FrameSignature | null => {
+  if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) return null;
+
+  if (!signatureCanvas) {
+    signatureCanvas = document.createElement('canvas');
+    signatureCanvas.width = SIGNATURE_WIDTH;
+    signatureCanvas.height = SIGNATURE_HEIGHT;
+  }
+  const ctx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const bounds = regions.length > 0 ? regionsBounds(regions) : { x: 0, y: 0, width: 1, height: 1 };
+  try {
+    ctx.drawImage(
+      video,
+      bounds.x * video.videoWidth,
+      bounds.y * video.videoHeight,
+      bounds.width * video.videoWidth,
+      bounds.height * video.videoHeight,
+      0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT
+    );
+    const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+    for (let i = 0; i < signature.length; i++) {
+      signature[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+    }
+    return signature;
+  } catch (e) {
+    // Tainted canvas (cross-origin video) – change detection is not possible
+    return null;
+  }
+};
+
+// Mean absolute difference between two signatures, 0 (identical) to 1
+export const frameDifference = (a: FrameSignature, b: FrameSignature): number => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+// Largest change across channels, as a fraction of each channel's expected range
+export const telemetryDifference = (
+  previous: TelemetryData,
+  current: TelemetryData,
+  channels: TelemetryChannel[]
+): number =>
+  channels.reduce((max, channel) => {
+    const before = previous[channel.id];
+    const after = current[channel.id];
+    if (before === undefined || after === undefined) return max;
+    const range = channel.expectedRange.max - channel.expectedRange.min;
+    const scale = Number.isFinite(range) && range > 0 ? range : Math.abs(before) || 1;
+    return Math.max(max, Math.abs(after - before) / scale);
+  }, 0);
+
+export const decideAnalysis = (
+  last: AnalyzedSnapshot | null,
+  signature: FrameSignature | null,
+  telemetry: TelemetryData,
+  channels: TelemetryChannel[],
+  settings: ChangeDetectionSettings,
+  now: number
+): ChangeDecision => {
+  if (!last) {
+    return { analyze: true, reason: 'FIRST_FRAME', visualChange: 0, telemetryChange: 0 };
+  }
+
+  // An unreadable frame counts as changed so monitoring never silently stops
+  const visualChange = signature && last.signature ? frameDifference(signature, last.signature) : 1;
+  const telemetryChange = telemetryDifference(last.telemetry, telemetry, channels);
+
+  if (visualChange >= settings.visualThreshold) {
+    return { analyze: true, reason: 'VISUAL_CHANGE', visualChange, telemetryChange };
+  }
+  if (telemetryChange >= settings.telemetryThreshold) {
+    return { analyze: true, reason: 'TELEMETRY_CHANGE', visualChange, telemetryChange };
+  }
+  if (now - last.analyzedAt >= settings.maxStalenessMs) {
+    return { analyze: true, reason: 'STALE', visualChange, telemetryChange };
+  }
+  return { analyze: false, reason: 'UNCHANGED', visualChange, telemetryChange };
+};
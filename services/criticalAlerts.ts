@@ -0,0 +1,123 @@
+import { HistoryItem, Incident } from "../types";
+
+// A CRITICAL result raises an incident that stays open until a named person
+// acknowledges it. While it is open the browser is notified, an alarm tone
+// repeats and the incident escalates at a fixed interval.
+
+const OPERATOR_KEY = 'bioreason.operatorName';
+
+export const ESCALATION_INTERVAL_MS = 2 * 60_000;
+export const MAX_ESCALATION_LEVEL = 3;
+
+export const createIncident = (entry: HistoryItem): Incident => ({
+  id: `inc-${entry.timestamp.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  entryTimestamp: entry.timestamp,
+  observation: entry.analysis.observation,
+  recommendation: entry.analysis.recommendation,
+  level: 0,
+  events: [{ type: 'RAISED', timestamp: Date.now() }],
+});
+
+export const isAcknowledged = (incident: Incident): boolean =>
+  incident.events.some(event => event.type === 'ACKNOWLEDGED');
+
+export const openIncident = (incidents: Incident[]): Incident | null =>
+  incidents.find(incident => !isAcknowledged(incident)) || null;
+
+// Time of the last RAISED or ESCALATED event
+const lastRaisedAt = (incident: Incident): number =>
+  Math.max(...incident.events.filter(e => e.type !== 'ACKNOWLEDGED').map(e => e.timestamp));
+
+export const isDueForEscalation = (incident: Incident, now: number): boolean =>
+  !isAcknowledged(incident) &&
+  incident.level < MAX_ESCALATION_LEVEL &&
+  now - lastRaisedAt(incident) >= ESCALATION_INTERVAL_MS;
+
+export const escalateIncident = (incident: Incident, now: number): Incident => ({
+  ...incident,
+  level: incident.level + 1,
+  events: [...incident.events, { type: 'ESCALATED', timestamp: now, level: incident.level + 1 }],
+});
+
+export const acknowledgeIncident = (incident: Incident, by: string, comment: string, now: number): Incident => ({
+  ...incident,
+  events: [...incident.events, { type: 'ACKNOWLEDGED', timestamp: now, by, comment }],
+});
+
+export const loadOperatorName = (): string => localStorage.getItem(OPERATOR_KEY) || '';
+
+export const saveOperatorName = (name: string) => {
+  localStorage.setItem(OPERATOR_KEY, name);
+};
+
+// --- Browser notifications ---
+
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+  notificationsSupported() ? Notification.requestPermission() : 'unsupported';
+
+// Re-notifying under the same tag replaces the earlier notification
+export const notifyIncident = (incident: Incident) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const title = incident.level > 0
+    ? `BioReason: CRITICAL, escalated (level ${incident.level})`
+    : 'BioReason: CRITICAL result';
+  try {
+    const notification = new Notification(title, {
+      body: `${incident.observation}\n${incident.recommendation}`,
+      tag: incident.id,
+      requireInteraction: true,
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+    };
+  } catch (e) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn("Unable to show notification", e);
+  }
+};
+
+// --- Audible alarm ---
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (!audioContext && typeof AudioContext !== 'undefined') audioContext = new AudioContext();
+  return audioContext;
+};
+
+const beep = (ctx: AudioContext, volume: number) => {
+  [0, 0.25].forEach(offset => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 880;
+    gain.gain.value = volume;
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(ctx.currentTime + offset);
+    oscillator.stop(ctx.currentTime + offset + 0.15);
+  });
+};
+
+// Repeats a two-tone beep, faster and louder at higher escalation levels.
+// Returns a function that stops it. Browsers only play audio after the page
+// has had a user gesture.
+export const startAlarmSound = (level = 0): (() => void) => {
+  const ctx = getAudioContext();
+  if (!ctx) return () => {};
+  const volume = Math.min(0.1 + level * 0.1, 0.4);
+  const play = () => {
+    ctx.resume().then(() => beep(ctx, volume)).catch(() => {});
+  };
+  play();
+  const timer = setInterval(play, Math.max(2000 - level * 500, 600));
+  return () => clearInterval(timer);
+};
+
+// Plays one beep; used from a click so later alarms are allowed to sound
+export const testAlarmSound = () => {
+  const ctx = getAudioContext();
+  if (ctx) ctx.resume().then(() => beep(ctx, 0.1)).catch(() => {});
+};
@@ -0,0 +1,57 @@
+// Shared IndexedDB database. Sessions keep lightweight session records for the
+// browser list and history entries (which carry frames) keyed per session;
+// the experiment library keeps user entries with their images, and expected-state
+// reference images are keyed per experiment.
+const DB_NAME = 'bioreason';
+// v2 added the experiments store, v3 the references store
+const DB_VERSION = 3;
+export const SESSIONS_STORE = 'sessions';
+export const ENTRIES_STORE = 'entries';
+export const EXPERIMENTS_STORE = 'experiments';
+export const REFERENCES_STORE = 'references';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: ['sessionId', 'timestamp'] });
+          entries.createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(EXPERIMENTS_STORE)) {
+          db.createObjectStore(EXPERIMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(REFERENCES_STORE)) {
+          const references = db.createObjectStore(REFERENCES_STORE, { keyPath: 'id' });
+          references.createIndex('experimentId', 'experimentId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
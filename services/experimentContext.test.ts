@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseExperimentContext, parseReactant, serializeExperimentContext } from './experimentContext';
+
+const TITRATION = [
+  'Experiment: Acid-Base Titration',
+  'Reactants: 0.1M HCl (Analyte) [25 mL], 0.1M NaOH (Titrant)',
+  'Indicator: Phenolphthalein',
+  'Conditions: Room temperature, constant stirring',
+  'Expected: Solution turns faint pink at pH 8.2.',
+  'Known Hazards: Corrosive acid and base',
+  'Current State: Adding titrant dropwise near endpoint.',
+].join('\n');
+
+describe('parseReactant', () => {
+  it('splits concentration, name and amount', () => {
+    expect(parseReactant('0.5 mol/L CuSO4 (aq) [10 mL]')).toEqual({
+      name: 'CuSO4 (aq)',
+      concentration: '0.5 mol/L',
+      amount: '10 mL',
+    });
+  });
+
+  it('keeps a bare name', () => {
+    expect(parseReactant('Distilled water')).toEqual({ name: 'Distilled water', amount: undefined });
+  });
+});
+
+describe('parseExperimentContext', () => {
+  it('reads every labelled field', () => {
+    const context = parseExperimentContext(TITRATION);
+    expect(context.title).toBe('Acid-Base Titration');
+    expect(context.reactants).toEqual([
+      { name: 'HCl (Analyte)', concentration: '0.1M', amount: '25 mL' },
+      { name: 'NaOH (Titrant)', concentration: '0.1M', amount: undefined },
+    ]);
+    expect(context.hazards).toBe('Corrosive acid and base');
+    expect(context.notes).toBe('');
+  });
+
+  it('accepts alternative labels and keeps unlabelled lines as notes', () => {
+    const context = parseExperimentContext('Reagents: Ethanol\nHazards: Flammable\nStir gently.');
+    expect(context.reactants).toEqual([{ name: 'Ethanol', amount: undefined }]);
+    expect(context.hazards).toBe('Flammable');
+    expect(context.notes).toBe('Stir gently.');
+  });
+
+  it('joins a repeated label instead of replacing it', () => {
+    expect(parseExperimentContext('Conditions: 25 °C\nConditions: stirred').conditions).toBe('25 °C stirred');
+  });
+});
+
+describe('serializeExperimentContext', () => {
+  it('round-trips the documented format', () => {
+    expect(serializeExperimentContext(parseExperimentContext(TITRATION))).toBe(TITRATION);
+  });
+
+  it('writes canonical labels and notes last', () => {
+    const text = serializeExperimentContext(parseExperimentContext('Free text first\nHazards: Flammable'));
+    expect(text).toBe('Known Hazards: Flammable\nFree text first');
+    expect(serializeExperimentContext(parseExperimentContext(text))).toBe(text);
+  });
+});
@@ -0,0 +1,125 @@
+import { ExperimentContext, Reactant } from "../types";
+
+// The plain-text context stays the source of truth: the form editor parses it,
+// edits the fields and writes it back in this line format.
+//
+//   Experiment: Acid-Base Titration
+//   Reactants: 0.1M HCl (Analyte) [25 mL], 0.1M NaOH (Titrant)
+//   Indicator: Phenolphthalein
+//   Conditions: Room temperature, constant stirring
+//   Expected: Solution turns faint pink at pH 8.2.
+//   Known Hazards: Corrosive acid and base
+//   Current State: Adding titrant dropwise near endpoint.
+//
+// Lines without a recognised label are kept as free-form notes.
+
+export const EMPTY_EXPERIMENT_CONTEXT: ExperimentContext = {
+  title: '',
+  reactants: [],
+  indicator: '',
+  conditions: '',
+  expected: '',
+  hazards: '',
+  currentState: '',
+  notes: '',
+};
+
+type TextField = Exclude<keyof ExperimentContext, 'reactants'>;
+
+// Serialized order; the first label of each entry is the one written back
+const FIELD_LABELS: { field: TextField | 'reactants'; labels: string[] }[] = [
+  { field: 'title', labels: ['Experiment'] },
+  { field: 'reactants', labels: ['Reactants', 'Reagents'] },
+  { field: 'indicator', labels: ['Indicator'] },
+  { field: 'conditions', labels: ['Conditions'] },
+  { field: 'expected', labels: ['Expected', 'Expected Outcome'] },
+  { field: 'hazards', labels: ['Known Hazards', 'Hazards'] },
+  { field: 'currentState', labels: ['Current State', 'Current Phase'] },
+];
+
+// e.g. 0.1M, 0.5 mol/L, 10%, 2 mg/mL
+const CONCENTRATION = /^(\d*\.?\d+\s?(?:mol\/L|mg\/mL|g\/L|mM|µM|uM|M|N|%))\s+(.+)$/;
+
+// Splits on commas outside parentheses and brackets
+const splitList = (text: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+export const parseReactant = (text: string): Reactant => {
+  let rest = text.trim();
+  let amount: string | undefined;
+  const amountMatch = rest.match(/^(.*?)\s*\[([^\]]*)\]$/);
+  if (amountMatch) {
+    rest = amountMatch[1];
+    amount = amountMatch[2].trim() || undefined;
+  }
+  const concentrationMatch = rest.match(CONCENTRATION);
+  return concentrationMatch
+    ? { name: concentrationMatch[2], concentration: concentrationMatch[1], amount }
+    : { name: rest, amount };
+};
+
+export const formatReactant = ({ name, concentration, amount }: Reactant): string =>
+  [concentration, name].filter(Boolean).join(' ') + (amount ? ` [${amount}]` : '');
+
+const labelPattern = new RegExp(
+  `^(${FIELD_LABELS.flatMap(f => f.labels).map(label => label.replace(' ', '\\s+')).join('|')})\\s*:\\s*(.*)$`,
+  'i'
+);
+
+const fieldForLabel = (label: string): TextField | 'reactants' => {
+  const normalized = label.replace(/\s+/g, ' ').toLowerCase();
+  return FIELD_LABELS.find(f => f.labels.some(l => l.toLowerCase() === normalized))!.field;
+};
+
+export const parseExperimentContext = (text: string): ExperimentContext => {
+  const result: ExperimentContext = { ...EMPTY_EXPERIMENT_CONTEXT, reactants: [] };
+  const notes: string[] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(labelPattern);
+    if (!match) {
+      notes.push(line);
+      return;
+    }
+    const field = fieldForLabel(match[1]);
+    const value = match[2].trim();
+    if (field === 'reactants') {
+      result.reactants.push(...splitList(value).map(parseReactant));
+    } else {
+      // A repeated label continues the field rather than replacing it
+      result[field] = result[field] ? `${result[field]} ${value}` : value;
+    }
+  });
+
+  result.notes = notes.join('\n').trim();
+  return result;
+};
+
+export const serializeExperimentContext = (context: ExperimentContext): string => {
+  const lines: string[] = [];
+  FIELD_LABELS.forEach(({ field, labels }) => {
+    if (field === 'reactants') {
+      const items = context.reactants.filter(r => r.name.trim()).map(formatReactant);
+      if (items.length > 0) lines.push(`${labels[0]}: ${items.join(', ')}`);
+    } else if (field !== 'notes' && context[field].trim()) {
+      lines.push(`${labels[0]}: ${context[field]}`);
+    }
+  });
+  if (context.notes.trim()) lines.push(context.notes);
+  return lines.join('\n');
+};
@@ -0,0 +1,158 @@
+import { LibraryBundleEntry, LibraryEntry, LibraryExport } from "../types";
+import { EXPERIMENTS_STORE, openDb, promisify, transactionDone } from "./db";
+import { loadRuleSet, saveRuleSet } from "./alarmRules";
+import { loadProtocol, saveProtocol } from "./protocols";
+import { loadRegions, saveRegions } from "./regionsOfInterest";
+import { loadBaseInterval, saveBaseInterval } from "./monitoringCadence";
+import { copyReferences, createReferenceId, deleteReferences, listReferences, saveReferences } from "./referenceImages";
+
+export const LIBRARY_SCHEMA = 'bioreason.library';
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+// Reference images are downscaled before they are stored
+export const REFERENCE_IMAGE_MAX_WIDTH = 1280;
+
+export const createExperimentId = (): string => `exp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const listLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  const db = await openDb();
+  const entries = await promisify(
+    db.transaction(EXPERIMENTS_STORE, 'readonly').objectStore(EXPERIMENTS_STORE).getAll()
+  ) as LibraryEntry[];
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Entries with an existing id are replaced
+export const saveLibraryEntries = async (entries: LibraryEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(EXPERIMENTS_STORE, 'readwrite');
+  const store = tx.objectStore(EXPERIMENTS_STORE);
+  entries.forEach(entry => store.put(entry));
+  await transactionDone(tx);
+};
+
+export const deleteLibraryEntry = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EXPERIMENTS_STORE, 'readwrite');
+  tx.objectStore(EXPERIMENTS_STORE).delete(id);
+  await transactionDone(tx);
+  await deleteReferences(id);
+};
+
+// Alarm rules, protocol, regions, monitoring interval and reference images are
+// stored per experiment id; a duplicate starts with the same settings as its source
+export const copyExperimentSettings = async (fromId: string, toId: string): Promise<void> => {
+  saveRuleSet(toId, loadRuleSet(fromId));
+  saveProtocol(toId, loadProtocol(fromId));
+  saveRegions(toId, loadRegions(fromId));
+  saveBaseInterval(toId, loadBaseInterval(fromId));
+  await copyReferences(fromId, toId);
+};
+
+// "acid-base, Color Change" -> ['acid-base', 'color change']
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const collectTags = (entries: { tags?: string[] }[]): string[] =>
+  Array.from(new Set(entries.flatMap(entry => entry.tags || []))).sort();
+
+// Matches every word of the query against title, description, context and tags
+export const matchesLibraryQuery = (
+  entry: { title: string; description: string; context: string; tags?: string[] },
+  query: string,
+  tag: string | null
+): boolean => {
+  if (tag && !(entry.tags || []).includes(tag)) return false;
+  const haystack = [entry.title, entry.description, entry.context, ...(entry.tags || [])].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// Reference images are inlined so the bundle is self-contained
+export const libraryToJson = async (entries: LibraryEntry[]): Promise<string> => {
+  const bundleEntries: LibraryBundleEntry[] = await Promise.all(entries.map(async entry => {
+    const references = await listReferences(entry.id);
+    return references.length > 0
+      ? { ...entry, references: references.map(({ label, dataUrl }) => ({ label, dataUrl })) }
+      : entry;
+  }));
+  const payload: LibraryExport = {
+    schema: LIBRARY_SCHEMA,
+    version: LIBRARY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: bundleEntries,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isLibraryEntry = (value: unknown): value is LibraryEntry =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.context === 'string' &&
+  typeof value.imageUrl === 'string' &&
+  (value.description === undefined || typeof value.description === 'string') &&
+  (value.tags === undefined || isStringList(value.tags)) &&
+  (value.channels === undefined || isStringList(value.channels)) &&
+  (value.references === undefined || (Array.isArray(value.references) && value.references.every(
+    ref => isRecord(ref) && typeof ref.label === 'string' && typeof ref.dataUrl === 'string'
+  )));
+
+// Parses and validates a library bundle. Throws with a readable message when
+// the file is not a supported export.
+export const parseLibraryJson = (text: string): LibraryBundleEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.schema !== LIBRARY_SCHEMA) {
+    throw new Error("The file is not a BioReason library export.");
+  }
+  if (typeof data.version !== 'number' || data.version > LIBRARY_SCHEMA_VERSION) {
+    throw new Error(`Unsupported library export version: ${String(data.version)}.`);
+  }
+  const entries = data.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error("The library export has no entries.");
+  }
+
+  const invalidIndex = entries.findIndex(entry => !isLibraryEntry(entry));
+  if (invalidIndex !== -1) {
+    throw new Error(`Entry ${invalidIndex + 1} of the library export is malformed.`);
+  }
+
+  const now = Date.now();
+  return (entries as LibraryBundleEntry[]).map(entry => ({
+    ...entry,
+    description: entry.description || '',
+    tags: entry.tags || [],
+    createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : now,
+    updatedAt: now,
+  }));
+};
+
+// Saves imported entries; an entry's reference images replace any stored for the same id
+export const importLibraryEntries = async (bundleEntries: LibraryBundleEntry[]): Promise<void> => {
+  await saveLibraryEntries(bundleEntries.map(({ references, ...entry }) => entry));
+  for (const { id, references } of bundleEntries) {
+    if (!references) continue;
+    await deleteReferences(id);
+    const now = Date.now();
+    await saveReferences(references.map((reference, i) => ({
+      id: createReferenceId(),
+      experimentId: id,
+      label: reference.label,
+      dataUrl: reference.dataUrl,
+      createdAt: now + i,
+    })));
+  }
+};
@@ -0,0 +1,32 @@
+import { TemporalSettings } from "../types";
+
+export interface CapturedFrame {
+  capturedAt: number;
+  dataUrl: string;
+}
+
+export const MAX_BUFFERED_FRAMES = 10;
+
+export const DEFAULT_TEMPORAL_SETTINGS: TemporalSettings = {
+  frameCount: 3,
+  frameSpacingMs: 1000,
+};
+
+export const appendFrame = (buffer: CapturedFrame[], frame: CapturedFrame): CapturedFrame[] =>
+  [...buffer, frame].slice(-MAX_BUFFERED_FRAMES);
+
+// Builds the ordered sequence sent for one analysis: up to frameCount - 1
+// buffered frames followed by the frame captured now. Buffered frames older
+// than the sequence window (e.g. from before monitoring was paused) are skipped.
+export const selectFrameSequence = (
+  buffer: CapturedFrame[],
+  current: CapturedFrame,
+  { frameCount, frameSpacingMs }: TemporalSettings
+): CapturedFrame[] => {
+  if (frameCount <= 1) return [current];
+  const windowStart = current.capturedAt - frameCount * frameSpacingMs;
+  const previous = buffer
+    .filter(frame => frame.capturedAt >= windowStart && frame.capturedAt < current.capturedAt)
+    .slice(-(frameCount - 1));
+  return [...previous, current];
+};
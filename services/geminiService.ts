@@ -1,81 +1,159 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, ThinkingLevel } from "../types";
+import { Content, GoogleGenAI, Part } from "@google/genai";
+import { AnalysisProvider, AnalysisRequest, AnalysisResult, ChatRequest, ThinkingLevel } from "../types";
+import { CHAT_INSTRUCTION, LIVE_FRAME_LABEL, SYSTEM_INSTRUCTION, buildUserPrompt, frameLabel, referenceLabel } from "./analysisPrompt";
+import { AuthError, AnalysisTimeoutError, MalformedResponseError, SafetyBlockError, classifyError, withRetry } from "./analysisErrors";
+import { ANALYSIS_RESULT_SCHEMA, parseAnalysisResult } from "./analysisSchema";
 
-// Initialize the client
+// Per-attempt limit; high thinking budgets can legitimately take a while
+const REQUEST_TIMEOUT_MS = 120000;
+// Finish reasons that mean the output was withheld by a content filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// The client is created on first use rather than at module load, so the app
+// can start (e.g. with the mock provider) without a Gemini key.
 // The API key is injected via the environment variable process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const responseSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    status: {
-      type: Type.STRING,
-      enum: ["NORMAL", "WARNING", "CRITICAL"],
-      description: "The safety status of the experiment.",
-    },
-    observation: {
-      type: Type.STRING,
-      description: "Brief visual description of the experiment state.",
-    },
-    deduction: {
-      type: Type.STRING,
-      description: "Detailed deductive reasoning for the observed state.",
-    },
-    recommendation: {
-      type: Type.STRING,
-      description: "Actionable advice for the scientist.",
-    },
-  },
-  required: ["status", "observation", "deduction", "recommendation"],
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) {
+    throw new AuthError("GEMINI_API_KEY is not configured. Set it in .env.local or choose another provider.");
+  }
+  if (!ai) {
+    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return ai;
 };
 
-export const analyzeExperiment = async (
-  context: string,
-  imageBase64: string,
-  thinkingLevel: ThinkingLevel
-): Promise<AnalysisResult> => {
-  const modelId = "gemini-3-pro-preview";
-  
-  // Set thinking budget based on level
-  // High = Max reasoning (32k tokens)
-  // Low = Minimal reasoning for speed (2k tokens)
-  const thinkingBudget = thinkingLevel === 'HIGH' ? 32768 : 2048;
+type GenerateParams = Parameters<GoogleGenAI['models']['generateContent']>[0];
 
+// Set thinking budget based on level
+// High = Max reasoning (32k tokens)
+// Low = Minimal reasoning for speed (2k tokens)
+const thinkingBudgetFor = (thinkingLevel: ThinkingLevel) => (thinkingLevel === 'HIGH' ? 32768 : 2048);
+
+// One generateContent call returning the response text. Aborted by the caller
+// or by the per-attempt timeout, whichever comes first.
+const generate = async (params: GenerateParams, signal?: AbortSignal): Promise<string> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response;
   try {
-    const response = await ai.models.generateContent({
+    response = await getClient().models.generateContent({
+      ...params,
+      config: { ...params.config, abortSignal: controller.signal },
+    });
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new AnalysisTimeoutError(`Gemini did not respond within ${REQUEST_TIMEOUT_MS / 1000} s.`, error);
+    }
+    throw classifyError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockError(`Gemini blocked the request (${blockReason || finishReason}).`);
+  }
+
+  if (!response.text) {
+    throw new MalformedResponseError("No response received from Gemini.");
+  }
+  return response.text;
+};
+
+const jpegPart = (base64: string): Part => ({
+  inlineData: {
+    mimeType: "image/jpeg", // Assuming JPEG for simplicity, can act generic
+    data: base64,
+  },
+});
+
+const analyze = async ({ context, frames, thinkingLevel, signal, references = [] }: AnalysisRequest): Promise<AnalysisResult> => {
+  const modelId = "gemini-3-pro-preview";
+
+  // Reference images come first, each labelled so they are not mistaken for live frames
+  const referenceParts: Part[] = references.flatMap((reference, i) => [
+    { text: referenceLabel(reference.label, i, references.length) },
+    jpegPart(reference.base64),
+  ]);
+
+  // Each frame is preceded by its timestamp label when there is more than one
+  const imageParts: Part[] = frames.flatMap((frame, i) => {
+    const image = jpegPart(frame.base64);
+    if (frames.length > 1) return [{ text: frameLabel(frames, i) }, image];
+    return references.length > 0 ? [{ text: LIVE_FRAME_LABEL }, image] : [image];
+  });
+
+  const attempt = async (): Promise<AnalysisResult> => {
+    const text = await generate({
       model: modelId,
       contents: {
         parts: [
+          ...referenceParts,
+          ...imageParts,
           {
-            inlineData: {
-              mimeType: "image/jpeg", // Assuming JPEG for simplicity, can act generic
-              data: imageBase64,
-            },
-          },
-          {
-            text: `Experimental Context: ${context}\n\nAnalyze the image against this context.`,
+            text: buildUserPrompt(context, frames.length, references.length),
           },
         ],
       },
       config: {
-        systemInstruction: "You are BioReason, a lab partner. Analyze the image against the provided context. If an anomaly is detected, use your deep reasoning to deduce the chemical or physical cause. Output JSON with keys: status, observation, deduction, and recommendation.",
+        systemInstruction: SYSTEM_INSTRUCTION,
         responseMimeType: "application/json",
-        responseSchema: responseSchema,
+        responseSchema: ANALYSIS_RESULT_SCHEMA,
         thinkingConfig: {
-          thinkingBudget: thinkingBudget, 
+          thinkingBudget: thinkingBudgetFor(thinkingLevel),
         },
       },
-    });
+    }, signal);
+    return parseAnalysisResult(text);
+  };
 
-    if (!response.text) {
-      throw new Error("No response received from Gemini.");
-    }
+  try {
+    return await withRetry(attempt, { signal });
+  } catch (error) {
+    console.error("Gemini Analysis Error:", error);
+    throw error;
+  }
+};
 
-    const parsedResult = JSON.parse(response.text) as AnalysisResult;
-    return parsedResult;
+const chat = async ({ grounding, image, turns, thinkingLevel, signal }: ChatRequest): Promise<string> => {
+  // The analyzed frame and grounding text open the conversation
+  const groundingParts: Part[] = [...(image ? [jpegPart(image)] : []), { text: grounding }];
+  const contents: Content[] = turns.map((turn, i) => ({
+    role: turn.role,
+    parts: [
+      ...(i === 0 ? groundingParts : []),
+      ...(turn.image ? [{ text: "Newer frame attached by the scientist:" }, jpegPart(turn.image)] : []),
+      { text: turn.text },
+    ],
+  }));
 
+  try {
+    return await withRetry(() => generate({
+      model: "gemini-3-pro-preview",
+      contents,
+      config: {
+        systemInstruction: CHAT_INSTRUCTION,
+        thinkingConfig: {
+          thinkingBudget: thinkingBudgetFor(thinkingLevel),
+        },
+      },
+    }, signal), { signal });
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
+    console.error("Gemini Chat Error:", error);
     throw error;
   }
 };
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'GEMINI',
+  label: 'Gemini 3 Pro',
+  analyze,
+  chat,
+};
@@ -0,0 +1,24 @@
+import { HazardCategory, HazardSeverity } from "../types";
+
+export const HAZARD_CATEGORIES: HazardCategory[] = ['THERMAL', 'PRESSURE', 'TOXIC_GAS', 'FIRE', 'SPILL'];
+
+export const HAZARD_SEVERITIES: HazardSeverity[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+export const HAZARD_LABELS: Record<HazardCategory, string> = {
+  THERMAL: 'Thermal',
+  PRESSURE: 'Pressure',
+  TOXIC_GAS: 'Toxic gas',
+  FIRE: 'Fire',
+  SPILL: 'Spill',
+};
+
+export const HAZARD_ICONS: Record<HazardCategory, string> = {
+  THERMAL: '🌡',
+  PRESSURE: '⇪',
+  TOXIC_GAS: '☁',
+  FIRE: '🔥',
+  SPILL: '💧',
+};
+
+export const formatConfidence = (confidence?: number): string =>
+  confidence === undefined ? '—' : `${Math.round(confidence * 100)}%`;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ExperimentStatus, HistoryItem } from '../types';
+import { HISTORY_SCHEMA, historyToCsv, historyToJson, parseHistoryJson } from './historyExport';
+
+const item = (overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+  timestamp: 1_700_000_000_000,
+  telemetry: { temperature: 25, pressure: -1.5 },
+  analysis: {
+    status: ExperimentStatus.NORMAL,
+    observation: 'Clear',
+    deduction: 'Stable',
+    recommendation: 'Continue',
+  },
+  ...overrides,
+});
+
+const exportFile = (entries: unknown[], extra: object = {}) =>
+  JSON.stringify({ schema: HISTORY_SCHEMA, version: 2, entries, ...extra });
+
+describe('historyToCsv', () => {
+  it('prefixes text cells that would run as formulas', () => {
+    const csv = historyToCsv([item({
+      analysis: { ...item().analysis, observation: '=HYPERLINK("http://x")', recommendation: '@SUM(A1)' },
+    })], ['temperature', 'pressure']);
+    const row = csv.split('\r\n')[1];
+    expect(row).toContain(`"'=HYPERLINK(""http://x"")"`);
+    expect(row).toContain(`'@SUM(A1)`);
+  });
+
+  it('leaves negative readings numeric', () => {
+    const row = historyToCsv([item()], ['temperature', 'pressure']).split('\r\n')[1];
+    expect(row.split(',')).toContain('-1.5');
+  });
+});
+
+describe('parseHistoryJson', () => {
+  it('round-trips an export', () => {
+    const entries = [item({ timestamp: 2 }), item({ timestamp: 1 })];
+    const parsed = parseHistoryJson(historyToJson('Run', 'Context', ['temperature'], entries));
+    expect(parsed.session).toEqual({ name: 'Run', context: 'Context', channels: ['temperature'] });
+    expect(parsed.entries.map(e => e.timestamp)).toEqual([1, 2]);
+  });
+
+  it('reads v1 files with the default channels', () => {
+    const parsed = parseHistoryJson(JSON.stringify({ schema: HISTORY_SCHEMA, version: 1, entries: [] }));
+    expect(parsed.session.channels).toEqual(['temperature', 'pressure']);
+  });
+
+  it.each([
+    ['not json', 'not valid JSON'],
+    [JSON.stringify({ schema: 'other' }), 'not a BioReason history export'],
+    [JSON.stringify({ schema: HISTORY_SCHEMA, version: 99, entries: [] }), 'Unsupported history export version'],
+    [exportFile([item(), { timestamp: 'x' }]), 'Entry 2'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseHistoryJson(text)).toThrow(message);
+  });
+
+  it('drops malformed optional fields and keeps valid list items', () => {
+    const [entry] = parseHistoryJson(exportFile([{
+      ...item(),
+      analysis: {
+        ...item().analysis,
+        confidence: '90%',
+        hazards: [{ category: 'FIRE', severity: 'HIGH', description: 'Flame' }, { category: 'LASER' }],
+        measurements: 'colour: blue',
+        annotations: [{ label: 'bubble', x: 0.1, y: 0.2 }, { label: 1, x: 0, y: 0 }],
+        stepComplete: 'yes',
+      },
+      frameBounds: { x: 0, y: 0 },
+      protocolStep: { index: -1, title: 'Heat' },
+    }])).entries;
+
+    expect(entry.analysis.confidence).toBeUndefined();
+    expect(entry.analysis.hazards).toEqual([{ category: 'FIRE', severity: 'HIGH', description: 'Flame' }]);
+    expect(entry.analysis.measurements).toBeUndefined();
+    expect(entry.analysis.annotations).toEqual([{ label: 'bubble', x: 0.1, y: 0.2 }]);
+    expect(entry.analysis.stepComplete).toBeUndefined();
+    expect(entry.frameBounds).toBeUndefined();
+    expect(entry.protocolStep).toBeUndefined();
+  });
+
+  it('clamps an imported confidence into 0..1', () => {
+    const [entry] = parseHistoryJson(exportFile([{ ...item(), analysis: { ...item().analysis, confidence: 3 } }])).entries;
+    expect(entry.analysis.confidence).toBe(1);
+  });
+});
@@ -0,0 +1,210 @@
+import { Annotation, ExperimentStatus, Hazard, HistoryExport, HistoryItem, Measurement, NormalizedRect } from "../types";
+import { HAZARD_CATEGORIES, HAZARD_SEVERITIES } from "./hazards";
+import { DEFAULT_CHANNEL_IDS, getChannel } from "./telemetryChannels";
+
+export const HISTORY_SCHEMA = 'bioreason.history';
+// v2 added session.channels; v1 files are read as temperature + pressure
+export const HISTORY_SCHEMA_VERSION = 2;
+
+// Text cells starting with these run as formulas in Excel and Sheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  // Numbers are left alone so negative readings stay numeric
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Declared channels first, then any other channel found in the history
+const collectChannelIds = (history: HistoryItem[], channelIds: string[]): string[] => {
+  const ids = [...channelIds];
+  history.forEach(item => Object.keys(item.telemetry).forEach(id => {
+    if (!ids.includes(id)) ids.push(id);
+  }));
+  return ids;
+};
+
+export const historyToCsv = (history: HistoryItem[], channelIds: string[]): string => {
+  const channels = collectChannelIds(history, channelIds).map(getChannel);
+  const columns = [
+    'timestamp_iso',
+    'timestamp_ms',
+    'video_time_s',
+    'status',
+    'step',
+    ...channels.map(channel => (channel.unit ? `${channel.id} (${channel.unit})` : channel.id)),
+    'observation',
+    'deduction',
+    'recommendation',
+    'confidence',
+    'hazards',
+    'measurements',
+  ];
+
+  const rows = history.map(item => [
+    new Date(item.timestamp).toISOString(),
+    item.timestamp,
+    item.videoTime ?? '',
+    item.analysis.status,
+    item.protocolStep ? `${item.protocolStep.index + 1}: ${item.protocolStep.title}` : '',
+    ...channels.map(channel => item.telemetry[channel.id] ?? ''),
+    item.analysis.observation,
+    item.analysis.deduction,
+    item.analysis.recommendation,
+    item.analysis.confidence ?? '',
+    (item.analysis.hazards || []).map(h => `${h.category}:${h.severity}`).join('; '),
+    (item.analysis.measurements || []).map(m => `${m.property}=${m.value}${m.unit ? ` ${m.unit}` : ''}`).join('; '),
+  ].map(escapeCsv).join(','));
+
+  return [columns.map(escapeCsv).join(','), ...rows].join('\r\n');
+};
+
+export const historyToJson = (name: string, context: string, channels: string[], history: HistoryItem[]): string => {
+  const payload: HistoryExport = {
+    schema: HISTORY_SCHEMA,
+    version: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { name, context, channels },
+    entries: history,
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTelemetry = (value: unknown): boolean =>
+  isRecord(value) && Object.values(value).every(isFiniteNumber);
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isStatus = (value: unknown): value is ExperimentStatus =>
+  (Object.values(ExperimentStatus) as unknown[]).includes(value);
+
+const isHistoryItem = (value: unknown): value is HistoryItem =>
+  isRecord(value) &&
+  isFiniteNumber(value.timestamp) &&
+  isTelemetry(value.telemetry) &&
+  isRecord(value.analysis) &&
+  isStatus(value.analysis.status) &&
+  typeof value.analysis.observation === 'string' &&
+  typeof value.analysis.deduction === 'string' &&
+  typeof value.analysis.recommendation === 'string' &&
+  isOptionalString(value.frame) &&
+  isOptionalString(value.thumbnail) &&
+  isOptionalString(value.prompt) &&
+  isOptionalString(value.rawResponse) &&
+  (value.videoTime === undefined || isFiniteNumber(value.videoTime));
+
+const isHazard = (value: unknown): value is Hazard =>
+  isRecord(value) &&
+  (HAZARD_CATEGORIES as unknown[]).includes(value.category) &&
+  (HAZARD_SEVERITIES as unknown[]).includes(value.severity) &&
+  typeof value.description === 'string';
+
+const isMeasurement = (value: unknown): value is Measurement =>
+  isRecord(value) &&
+  typeof value.property === 'string' &&
+  typeof value.value === 'string' &&
+  isOptionalString(value.unit) &&
+  isOptionalString(value.location);
+
+const isAnnotation = (value: unknown): value is Annotation =>
+  isRecord(value) &&
+  typeof value.label === 'string' &&
+  isFiniteNumber(value.x) &&
+  isFiniteNumber(value.y) &&
+  (value.width === undefined || isFiniteNumber(value.width)) &&
+  (value.height === undefined || isFiniteNumber(value.height));
+
+const isRect = (value: unknown): value is NormalizedRect =>
+  isRecord(value) && [value.x, value.y, value.width, value.height].every(isFiniteNumber);
+
+const isProtocolStep = (value: unknown): value is { index: number; title: string } =>
+  isRecord(value) && Number.isInteger(value.index) && (value.index as number) >= 0 && typeof value.title === 'string';
+
+// Keeps only the valid items of an optional list; undefined when it is not a list
+const validItems = <T>(value: unknown, isItem: (item: unknown) => item is T): T[] | undefined =>
+  Array.isArray(value) ? value.filter(isItem) : undefined;
+
+// The optional structured fields are dropped rather than failing the import,
+// as in the response schema, so a hand-edited file cannot break rendering
+const sanitizeHistoryItem = (item: HistoryItem): HistoryItem => {
+  const analysis = item.analysis;
+  return {
+    ...item,
+    analysis: {
+      ...analysis,
+      confidence: isFiniteNumber(analysis.confidence) ? Math.min(Math.max(analysis.confidence, 0), 1) : undefined,
+      hazards: validItems(analysis.hazards, isHazard),
+      measurements: validItems(analysis.measurements, isMeasurement),
+      annotations: validItems(analysis.annotations, isAnnotation),
+      stepComplete: typeof analysis.stepComplete === 'boolean' ? analysis.stepComplete : undefined,
+      comparison: typeof analysis.comparison === 'string' ? analysis.comparison : undefined,
+    },
+    frameBounds: isRect(item.frameBounds) ? item.frameBounds : undefined,
+    protocolStep: isProtocolStep(item.protocolStep) ? item.protocolStep : undefined,
+  };
+};
+
+// Parses and validates an exported history file. Throws with a readable
+// message when the file is not a supported export.
+export const parseHistoryJson = (text: string): HistoryExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.schema !== HISTORY_SCHEMA) {
+    throw new Error("The file is not a BioReason history export.");
+  }
+  if (!isFiniteNumber(data.version) || data.version > HISTORY_SCHEMA_VERSION) {
+    throw new Error(`Unsupported history export version: ${String(data.version)}.`);
+  }
+  const entries = data.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error("The history export has no entries.");
+  }
+
+  const invalidIndex = entries.findIndex(entry => !isHistoryItem(entry));
+  if (invalidIndex !== -1) {
+    throw new Error(`Entry ${invalidIndex + 1} of the history export is malformed.`);
+  }
+
+  const session = isRecord(data.session) ? data.session : {};
+  const channels = Array.isArray(session.channels)
+    ? session.channels.filter((id): id is string => typeof id === 'string')
+    : DEFAULT_CHANNEL_IDS;
+
+  return {
+    schema: HISTORY_SCHEMA,
+    version: data.version,
+    exportedAt: String(data.exportedAt || ''),
+    session: {
+      name: String(session.name || 'Imported session'),
+      context: String(session.context || ''),
+      channels,
+    },
+    entries: (entries as HistoryItem[]).map(sanitizeHistoryItem).sort((a, b) => a.timestamp - b.timestamp),
+  };
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Turns a session name into something safe to use as a file name
+export const toFileSlug = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
@@ -0,0 +1,32 @@
+import { ExperimentStatus, HazardCategory, HistoryItem } from "../types";
+
+export interface HistoryFilter {
+  status: ExperimentStatus | 'ALL';
+  hazard: HazardCategory | 'ALL';
+  // Entries without a confidence score only pass when this is 0
+  minConfidence: number;
+  // Measured property that must be present, e.g. "color"
+  property: string | 'ALL';
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  status: 'ALL',
+  hazard: 'ALL',
+  minConfidence: 0,
+  property: 'ALL',
+};
+
+export const isFilterActive = (filter: HistoryFilter): boolean =>
+  filter.status !== 'ALL' || filter.hazard !== 'ALL' || filter.minConfidence > 0 || filter.property !== 'ALL';
+
+export const filterHistory = (history: HistoryItem[], filter: HistoryFilter): HistoryItem[] =>
+  history.filter(({ analysis }) =>
+    (filter.status === 'ALL' || analysis.status === filter.status) &&
+    (filter.hazard === 'ALL' || (analysis.hazards || []).some(h => h.category === filter.hazard)) &&
+    (filter.minConfidence === 0 || (analysis.confidence ?? 0) >= filter.minConfidence) &&
+    (filter.property === 'ALL' || (analysis.measurements || []).some(m => m.property.toLowerCase() === filter.property))
+  );
+
+// Distinct measured property names across the history, lower-cased and sorted
+export const measuredProperties = (history: HistoryItem[]): string[] =>
+  Array.from(new Set(history.flatMap(item => (item.analysis.measurements || []).map(m => m.property.toLowerCase())))).sort();
@@ -0,0 +1,88 @@
+import { RegionOfInterest } from "../types";
+import { regionsBounds, ROI_COLORS } from "./regionsOfInterest";
+
+// Width of the thumbnail stored with every history entry
+export const HISTORY_THUMBNAIL_WIDTH = 160;
+
+// Downscales an image (data URL or same-origin URL) to a JPEG thumbnail.
+// Resolves with the original source if it cannot be decoded.
+export const createThumbnail = (source: string, maxWidth = 320, quality = 0.7): Promise<string> => {
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, maxWidth / img.width);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          resolve(source);
+          return;
+        }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', quality));
+      } catch (e) {
+        resolve(source);
+      }
+    };
+    img.onerror = () => resolve(source);
+    img.src = source;
+  });
+};
+
+// Crops an image to the union of the given regions and draws each region's
+// box and name onto the result. Resolves with the original source if the
+// image cannot be decoded or read back (e.g. a cross-origin image without CORS).
+export const cropToRegions = (source: string, regions: RegionOfInterest[]): Promise<string> => {
+  if (regions.length === 0) return Promise.resolve(source);
+  return new Promise((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      try {
+        const bounds = regionsBounds(regions);
+        const sx = bounds.x * img.width;
+        const sy = bounds.y * img.height;
+        const sw = Math.max(1, bounds.width * img.width);
+        const sh = Math.max(1, bounds.height * img.height);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(sw);
+        canvas.height = Math.round(sh);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          resolve(source);
+          return;
+        }
+        ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+        const lineWidth = Math.max(2, Math.round(canvas.width / 400));
+        const fontSize = Math.max(12, Math.round(canvas.width / 50));
+        ctx.lineWidth = lineWidth;
+        ctx.font = `bold ${fontSize}px sans-serif`;
+        ctx.textBaseline = 'top';
+        regions.forEach((region, i) => {
+          const color = ROI_COLORS[i % ROI_COLORS.length];
+          const x = region.x * img.width - sx;
+          const y = region.y * img.height - sy;
+          ctx.strokeStyle = color;
+          ctx.strokeRect(x, y, region.width * img.width, region.height * img.height);
+
+          const labelWidth = ctx.measureText(region.name).width + fontSize * 0.6;
+          ctx.fillStyle = color;
+          ctx.fillRect(x, Math.max(0, y - fontSize * 1.3), labelWidth, fontSize * 1.3);
+          ctx.fillStyle = '#fff';
+          ctx.fillText(region.name, x + fontSize * 0.3, Math.max(0, y - fontSize * 1.3) + fontSize * 0.15);
+        });
+
+        resolve(canvas.toDataURL('image/jpeg', 0.92));
+      } catch (e) {
+        resolve(source);
+      }
+    };
+    img.onerror = () => resolve(source);
+    img.src = source;
+  });
+};
@@ -0,0 +1,130 @@
+import { AnalysisProvider, AnalysisRequest, AnalysisResult, ChatRequest, ProviderSettings } from "../types";
+import { CHAT_INSTRUCTION, LIVE_FRAME_LABEL, SYSTEM_INSTRUCTION, buildUserPrompt, frameLabel, referenceLabel } from "./analysisPrompt";
+import { AnalysisTimeoutError, MalformedResponseError, classifyError, errorForStatus, withRetry } from "./analysisErrors";
+import { parseAnalysisResult } from "./analysisSchema";
+
+// Per-attempt limit, as for Gemini; a hung server would otherwise hold a queue slot forever
+const REQUEST_TIMEOUT_MS = 120000;
+
+// One chat completions call returning the message text. Aborted by the caller
+// or by the per-attempt timeout, whichever comes first.
+const complete = async (endpoint: string, body: object, signal?: AbortSignal): Promise<string> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort);
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: controller.signal,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw errorForStatus(response.status, `Local model endpoint returned ${response.status} ${response.statusText}.`);
+    }
+
+    const data = await response.json();
+    const text: string | undefined = data?.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new MalformedResponseError("No response received from local model.");
+    }
+    return text;
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) {
+      throw new AnalysisTimeoutError(`The local model did not respond within ${REQUEST_TIMEOUT_MS / 1000} s.`, error);
+    }
+    throw classifyError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+};
+
+// Talks to any OpenAI-compatible chat completions endpoint (Ollama, LM Studio,
+// vLLM, llama.cpp server). The model must accept image input.
+const analyze = async (
+  { context, frames, thinkingLevel, signal, references = [] }: AnalysisRequest,
+  settings: ProviderSettings
+): Promise<AnalysisResult> => {
+  const endpoint = settings.localEndpoint.replace(/\/+$/, '');
+
+  const referenceContent = references.flatMap((reference, i) => [
+    { type: 'text', text: referenceLabel(reference.label, i, references.length) },
+    { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${reference.base64}` } },
+  ]);
+
+  const imageContent = frames.flatMap((frame, i) => {
+    const image = { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${frame.base64}` } };
+    if (frames.length > 1) return [{ type: 'text', text: frameLabel(frames, i) }, image];
+    return references.length > 0 ? [{ type: 'text', text: LIVE_FRAME_LABEL }, image] : [image];
+  });
+
+  const attempt = async (): Promise<AnalysisResult> => {
+    const text = await complete(endpoint, {
+      model: settings.localModel,
+      // Local models have no thinking budget; lower temperature for the "deep" setting instead
+      temperature: thinkingLevel === 'HIGH' ? 0.2 : 0.7,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: SYSTEM_INSTRUCTION },
+        {
+          role: 'user',
+          content: [
+            ...referenceContent,
+            ...imageContent,
+            { type: 'text', text: buildUserPrompt(context, frames.length, references.length) },
+          ],
+        },
+      ],
+    }, signal);
+    return parseAnalysisResult(text);
+  };
+
+  try {
+    return await withRetry(attempt, { signal });
+  } catch (error) {
+    console.error("Local Model Analysis Error:", error);
+    throw error;
+  }
+};
+
+const chat = async (
+  { grounding, image, turns, thinkingLevel, signal }: ChatRequest,
+  settings: ProviderSettings
+): Promise<string> => {
+  const endpoint = settings.localEndpoint.replace(/\/+$/, '');
+  const imageUrl = (base64: string) => ({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64}` } });
+
+  // The analyzed frame and grounding text open the conversation
+  const messages = turns.map((turn, i) => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: [
+      ...(i === 0 ? [...(image ? [imageUrl(image)] : []), { type: 'text', text: grounding }] : []),
+      ...(turn.image ? [{ type: 'text', text: "Newer frame attached by the scientist:" }, imageUrl(turn.image)] : []),
+      { type: 'text', text: turn.text },
+    ],
+  }));
+
+  const attempt = (): Promise<string> => complete(endpoint, {
+    model: settings.localModel,
+    temperature: thinkingLevel === 'HIGH' ? 0.2 : 0.7,
+    messages: [{ role: 'system', content: CHAT_INSTRUCTION }, ...messages],
+  }, signal);
+
+  try {
+    return await withRetry(attempt, { signal });
+  } catch (error) {
+    console.error("Local Model Chat Error:", error);
+    throw error;
+  }
+};
+
+export const localModelProvider: AnalysisProvider = {
+  id: 'LOCAL',
+  label: 'Local (OpenAI-compatible)',
+  analyze,
+  chat,
+};
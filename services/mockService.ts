@@ -0,0 +1,111 @@
+import { AnalysisProvider, AnalysisResult, ExperimentStatus } from "../types";
+import { sleep } from "./analysisErrors";
+
+// Scripted responses for offline development and demos. The sequence is
+// fixed, so a given number of calls always yields the same results.
+const SCRIPT: AnalysisResult[] = [
+  {
+    status: ExperimentStatus.NORMAL,
+    observation: "Clear solution in flask, no visible precipitate or gas evolution.",
+    deduction: "Appearance matches the expected baseline for the current phase. No indication of side reactions.",
+    recommendation: "Continue the procedure as planned.",
+    confidence: 0.92,
+    hazards: [],
+    measurements: [
+      { property: "color", value: "colorless", location: "flask" },
+      { property: "turbidity", value: "clear", location: "flask" },
+    ],
+    annotations: [],
+  },
+  {
+    status: ExperimentStatus.NORMAL,
+    observation: "Slight color change near the surface, otherwise unchanged.",
+    deduction: "Localized color change is consistent with incomplete mixing rather than a bulk reaction.",
+    recommendation: "Swirl gently to homogenize and keep observing.",
+    confidence: 0.78,
+    hazards: [],
+    measurements: [
+      { property: "color", value: "pale pink", location: "liquid surface" },
+      { property: "turbidity", value: "clear", location: "flask" },
+    ],
+    annotations: [],
+    stepComplete: true,
+  },
+  {
+    status: ExperimentStatus.WARNING,
+    observation: "Faint vapor above the liquid surface and small bubbles at the flask wall.",
+    deduction: "Onset of boiling or gas evolution suggests the temperature is rising faster than expected.",
+    recommendation: "Reduce heat input and verify the thermometer reading.",
+    confidence: 0.7,
+    hazards: [
+      { category: 'THERMAL', severity: 'MEDIUM', description: "Temperature rising faster than expected." },
+    ],
+    measurements: [
+      { property: "bubble rate", value: "low", location: "flask wall" },
+      { property: "phase", value: "liquid with vapor", location: "headspace" },
+    ],
+    annotations: [
+      { label: "vapor", x: 0.35, y: 0.2, width: 0.3, height: 0.15 },
+      { label: "bubbles", x: 0.3, y: 0.65 },
+    ],
+  },
+  {
+    status: ExperimentStatus.CRITICAL,
+    observation: "Vigorous bubbling and rapid foam rise toward the flask neck.",
+    deduction: "Runaway exothermic behaviour; pressure build-up is likely if the vessel is closed.",
+    recommendation: "Remove heat source immediately, vent the vessel and step back from the bench.",
+    confidence: 0.88,
+    hazards: [
+      { category: 'THERMAL', severity: 'HIGH', description: "Runaway exotherm." },
+      { category: 'PRESSURE', severity: 'HIGH', description: "Foam and gas build-up toward the flask neck." },
+      { category: 'SPILL', severity: 'MEDIUM', description: "Foam may overflow the flask." },
+    ],
+    measurements: [
+      { property: "bubble rate", value: "vigorous", location: "bulk liquid" },
+      { property: "foam level", value: "80", unit: "% of flask height", location: "flask neck" },
+    ],
+    annotations: [
+      { label: "foam front", x: 0.3, y: 0.15, width: 0.4, height: 0.25 },
+      { label: "vigorous bubbling", x: 0.25, y: 0.5, width: 0.5, height: 0.35 },
+    ],
+  },
+  {
+    status: ExperimentStatus.NORMAL,
+    observation: "Bubbling has subsided; solution is settling.",
+    deduction: "Cooling has brought the reaction back under control.",
+    recommendation: "Resume at a lower heating rate.",
+    confidence: 0.81,
+    hazards: [],
+    measurements: [
+      { property: "bubble rate", value: "none", location: "bulk liquid" },
+      { property: "turbidity", value: "slightly cloudy", location: "flask" },
+    ],
+    annotations: [],
+    stepComplete: true,
+  },
+];
+
+const MOCK_LATENCY_MS = 800;
+
+let callCount = 0;
+
+const simulateLatency = (signal?: AbortSignal) => sleep(MOCK_LATENCY_MS, signal);
+
+export const mockProvider: AnalysisProvider = {
+  id: 'MOCK',
+  label: 'Mock (Offline)',
+  analyze: async ({ signal, references = [] }) => {
+    await simulateLatency(signal);
+    // Advanced only for completed calls, so a cancel does not skip a scripted result
+    const result = SCRIPT[callCount % SCRIPT.length];
+    callCount++;
+    if (references.length === 0) return { ...result };
+    return { ...result, comparison: `Mock comparison with ${references.length} reference image(s): ${result.observation}` };
+  },
+  chat: async ({ turns, signal }) => {
+    await simulateLatency(signal);
+    const question = turns[turns.length - 1]?.text || '';
+    const frameNote = turns[turns.length - 1]?.image ? " I can see the frame you attached." : '';
+    return `Mock reply to "${question}".${frameNote} A live provider would answer from the analyzed frame, the experiment context and the telemetry recorded with it.`;
+  },
+};
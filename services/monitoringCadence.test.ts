@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ExperimentStatus, HistoryItem } from '../types';
+import { TelemetrySample } from './alarmEngine';
+import { computeCadence } from './monitoringCadence';
+import { resolveChannels } from './telemetryChannels';
+
+const channels = resolveChannels(['temperature', 'pressure']);
+
+const entry = (status: ExperimentStatus, timestamp = 0): HistoryItem => ({
+  timestamp,
+  telemetry: {},
+  analysis: { status, observation: '', deduction: '', recommendation: '' },
+});
+
+const statuses = (...list: ExperimentStatus[]) => list.map((status, i) => entry(status, i));
+
+// Temperature rising by `perMinute` °C over 20 s
+const rising = (perMinute: number): TelemetrySample[] => [
+  { timestamp: 0, data: { temperature: 25 } },
+  { timestamp: 20_000, data: { temperature: 25 + perMinute / 3 } },
+];
+
+describe('computeCadence', () => {
+  it('uses the base interval with no history', () => {
+    expect(computeCadence(5000, [], [], channels)).toEqual({ intervalMs: 5000, reason: 'Base interval' });
+  });
+
+  it('speeds up after CRITICAL and WARNING results', () => {
+    expect(computeCadence(8000, statuses(ExperimentStatus.CRITICAL), [], channels).intervalMs).toBe(2000);
+    expect(computeCadence(8000, statuses(ExperimentStatus.WARNING), [], channels).intervalMs).toBe(4000);
+  });
+
+  it('speeds up while a channel changes fast relative to its range', () => {
+    // Temperature's range is 25 °C, so 5 °C/min is 20% of it per minute
+    const cadence = computeCadence(8000, [], rising(5), channels);
+    expect(cadence).toEqual({ intervalMs: 4000, reason: 'Temperature changing fast' });
+    expect(computeCadence(8000, [], rising(1), channels).intervalMs).toBe(8000);
+  });
+
+  it('backs off after a NORMAL streak, further after a long one', () => {
+    const normal = (n: number) => statuses(...Array(n).fill(ExperimentStatus.NORMAL));
+    expect(computeCadence(5000, normal(5), [], channels).intervalMs).toBe(5000);
+    expect(computeCadence(5000, normal(6), [], channels).intervalMs).toBe(10000);
+    expect(computeCadence(5000, normal(12), [], channels).intervalMs).toBe(20000);
+  });
+
+  it('keeps the interval within bounds', () => {
+    expect(computeCadence(2000, statuses(ExperimentStatus.CRITICAL), [], channels).intervalMs).toBe(1000);
+    const normal = statuses(...Array(12).fill(ExperimentStatus.NORMAL));
+    expect(computeCadence(60000, normal, [], channels).intervalMs).toBe(120000);
+  });
+});
@@ -0,0 +1,100 @@
+import { ExperimentStatus, HistoryItem, MonitoringCadence, TelemetryChannel } from "../types";
+import { ratePerMinute, TelemetrySample } from "./alarmEngine";
+
+const STORAGE_KEY = 'bioreason.monitoringInterval';
+
+export const DEFAULT_BASE_INTERVAL_MS = 5000;
+export const BASE_INTERVAL_OPTIONS = [2000, 5000, 10000, 30000, 60000];
+
+// Library experiments whose pace differs from the default
+const PRESET_BASE_INTERVALS: Record<string, number> = {
+  combustion: 2000,
+  crystallization: 30000,
+};
+
+// The adaptive interval never leaves these bounds
+const MIN_INTERVAL_MS = 1000;
+const MAX_INTERVAL_MS = 120000;
+// Change per minute, as a fraction of a channel's expected range, that counts as fast
+const FAST_TELEMETRY_RATE = 0.1;
+// Consecutive NORMAL results before the interval is relaxed
+const STABLE_STREAK = 6;
+
+const readStoredIntervals = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Ignoring unreadable monitoring intervals in storage", e);
+    return {};
+  }
+};
+
+export const loadBaseInterval = (experimentId: string): number =>
+  readStoredIntervals()[experimentId] || PRESET_BASE_INTERVALS[experimentId] || DEFAULT_BASE_INTERVAL_MS;
+
+export const saveBaseInterval = (experimentId: string, intervalMs: number) => {
+  const stored = readStoredIntervals();
+  stored[experimentId] = intervalMs;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const formatInterval = (ms: number): string =>
+  ms < 60000 ? `${+(ms / 1000).toFixed(1)}s` : `${+(ms / 60000).toFixed(1)} min`;
+
+const normalStreak = (history: HistoryItem[]): number => {
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && history[i].analysis.status === ExperimentStatus.NORMAL; i--) {
+    streak++;
+  }
+  return streak;
+};
+
+// Channel moving fastest relative to its expected range, if any exceeds the threshold
+const fastestChannel = (samples: TelemetrySample[], channels: TelemetryChannel[]): TelemetryChannel | null => {
+  let fastest: TelemetryChannel | null = null;
+  let fastestRate = FAST_TELEMETRY_RATE;
+  for (const channel of channels) {
+    const rate = ratePerMinute(samples, channel.id);
+    const range = channel.expectedRange.max - channel.expectedRange.min;
+    if (rate === null || !Number.isFinite(range) || range <= 0) continue;
+    const relative = Math.abs(rate) / range;
+    if (relative >= fastestRate) {
+      fastest = channel;
+      fastestRate = relative;
+    }
+  }
+  return fastest;
+};
+
+const clampInterval = (ms: number) => Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, Math.round(ms)));
+
+// Speeds up while the experiment needs attention and backs off while it is
+// quiet. The first matching rule wins, most urgent first.
+export const computeCadence = (
+  baseIntervalMs: number,
+  history: HistoryItem[],
+  samples: TelemetrySample[],
+  channels: TelemetryChannel[]
+): MonitoringCadence => {
+  const lastStatus = history.length > 0 ? history[history.length - 1].analysis.status : null;
+
+  if (lastStatus === ExperimentStatus.CRITICAL) {
+    return { intervalMs: clampInterval(baseIntervalMs / 4), reason: 'CRITICAL status' };
+  }
+  if (lastStatus === ExperimentStatus.WARNING) {
+    return { intervalMs: clampInterval(baseIntervalMs / 2), reason: 'WARNING status' };
+  }
+
+  const fast = fastestChannel(samples, channels);
+  if (fast) {
+    return { intervalMs: clampInterval(baseIntervalMs / 2), reason: `${fast.label} changing fast` };
+  }
+
+  const streak = normalStreak(history);
+  if (streak >= STABLE_STREAK) {
+    const factor = streak >= STABLE_STREAK * 2 ? 4 : 2;
+    return { intervalMs: clampInterval(baseIntervalMs * factor), reason: `NORMAL for ${streak} analyses` };
+  }
+
+  return { intervalMs: clampInterval(baseIntervalMs), reason: 'Base interval' };
+};
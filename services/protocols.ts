@@ -0,0 +1,203 @@
+import { Protocol, ProtocolStep, TelemetryChannel, TelemetryData } from "../types";
+import { formatChannelValue } from "./telemetryChannels";
+
+const STORAGE_KEY = 'bioreason.protocols';
+
+export const EMPTY_PROTOCOL: Protocol = { steps: [], autoAdvance: false };
+
+export const createStepId = (): string => `step-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createStep = (): ProtocolStep => ({
+  id: createStepId(),
+  title: '',
+  expectedObservation: '',
+  successCriteria: '',
+  telemetryLimits: [],
+});
+
+// Starting protocols for the library experiments
+const PRESET_PROTOCOLS: Record<string, Protocol> = {
+  titration: {
+    autoAdvance: false,
+    steps: [
+      {
+        id: 'setup',
+        title: 'Prepare analyte',
+        expectedObservation: 'Clear, colorless HCl solution in the flask with indicator added and stirrer running.',
+        successCriteria: 'Flask contains clear liquid and the burette is positioned above it.',
+        telemetryLimits: [{ channel: 'ph', max: 3 }],
+      },
+      {
+        id: 'bulk',
+        title: 'Bulk titration',
+        expectedObservation: 'Pink flashes appear where titrant lands and vanish on mixing.',
+        successCriteria: 'Pink flashes persist for more than a second before fading.',
+        telemetryLimits: [{ channel: 'ph', max: 7 }, { channel: 'temperature', min: 18, max: 30 }],
+      },
+      {
+        id: 'endpoint',
+        title: 'Dropwise to endpoint',
+        expectedObservation: 'Solution is colorless between drops, turning faint pink near pH 8.2.',
+        successCriteria: 'Faint pink color persists throughout the solution for 30 seconds.',
+        telemetryLimits: [{ channel: 'ph', min: 7, max: 9 }],
+      },
+    ],
+  },
+  iodine: {
+    autoAdvance: true,
+    steps: [
+      {
+        id: 'mix',
+        title: 'Mix reagents',
+        expectedObservation: 'Clear, colorless solution while stirring.',
+        successCriteria: 'All solutions combined and mixing is uniform.',
+        telemetryLimits: [],
+      },
+      {
+        id: 'wait',
+        title: 'Induction period',
+        expectedObservation: 'Solution stays clear and colorless.',
+        successCriteria: 'Solution turns dark blue-black.',
+        telemetryLimits: [{ channel: 'temperature', min: 18, max: 30 }],
+      },
+      {
+        id: 'complete',
+        title: 'Color change complete',
+        expectedObservation: 'Uniform dark blue-black solution.',
+        successCriteria: 'Color is uniform with no clear regions remaining.',
+        telemetryLimits: [],
+      },
+    ],
+  },
+  crystallization: {
+    autoAdvance: false,
+    steps: [
+      {
+        id: 'dissolve',
+        title: 'Dissolve and saturate',
+        expectedObservation: 'Clear blue solution, no undissolved solid.',
+        successCriteria: 'All CuSO4 dissolved; solution is clear.',
+        telemetryLimits: [{ channel: 'temperature', min: 40, max: 70 }],
+      },
+      {
+        id: 'cool',
+        title: 'Slow cooling',
+        expectedObservation: 'Clear blue solution, possibly with first small seed crystals.',
+        successCriteria: 'Visible seed crystals at the bottom or on the seed thread.',
+        telemetryLimits: [{ channel: 'temperature', max: 40 }],
+      },
+      {
+        id: 'grow',
+        title: 'Crystal growth',
+        expectedObservation: 'Blue triclinic crystals growing with flat faces.',
+        successCriteria: 'Crystals are several millimetres across with well-defined faces.',
+        telemetryLimits: [{ channel: 'temperature', min: 15, max: 30 }],
+      },
+    ],
+  },
+  combustion: {
+    autoAdvance: true,
+    steps: [
+      {
+        id: 'heat',
+        title: 'Heat ribbon',
+        expectedObservation: 'Ribbon held in the flame, dull grey, not yet ignited.',
+        successCriteria: 'Ribbon ignites with a bright white flame.',
+        telemetryLimits: [{ channel: 'pressure', max: 110 }],
+      },
+      {
+        id: 'burn',
+        title: 'Combustion',
+        expectedObservation: 'Intense white light from the ribbon.',
+        successCriteria: 'Light emission has stopped.',
+        telemetryLimits: [{ channel: 'pressure', max: 110 }],
+      },
+      {
+        id: 'residue',
+        title: 'Residue',
+        expectedObservation: 'White MgO powder, no remaining flame.',
+        successCriteria: 'Residue is white and no glowing metal remains.',
+        telemetryLimits: [],
+      },
+    ],
+  },
+};
+
+const readStoredProtocols = (): Record<string, Protocol> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Ignoring unreadable protocols in storage", e);
+    return {};
+  }
+};
+
+export const loadProtocol = (experimentId: string): Protocol => {
+  const stored = readStoredProtocols()[experimentId];
+  if (stored) return stored;
+  return PRESET_PROTOCOLS[experimentId] || EMPTY_PROTOCOL;
+};
+
+export const saveProtocol = (experimentId: string, protocol: Protocol) => {
+  const protocols = readStoredProtocols();
+  protocols[experimentId] = protocol;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(protocols));
+};
+
+export const formatStepLabel = (protocol: Protocol, index: number): string =>
+  `Step ${index + 1} of ${protocol.steps.length}: ${protocol.steps[index].title || 'Untitled'}`;
+
+const formatLimit = (channel: TelemetryChannel, min?: number, max?: number): string => {
+  const unit = channel.unit ? ` ${channel.unit}` : '';
+  if (min !== undefined && max !== undefined) return `${channel.label} ${min}–${max}${unit}`;
+  if (min !== undefined) return `${channel.label} ≥ ${min}${unit}`;
+  return `${channel.label} ≤ ${max}${unit}`;
+};
+
+// Limits that mention a channel the experiment does not declare are ignored
+export const describeStepLimits = (step: ProtocolStep, channels: TelemetryChannel[]): string[] =>
+  step.telemetryLimits.flatMap(limit => {
+    const channel = channels.find(c => c.id === limit.channel);
+    if (!channel || (limit.min === undefined && limit.max === undefined)) return [];
+    return [formatLimit(channel, limit.min, limit.max)];
+  });
+
+// Readings outside the step's limits, as readable sentences
+export const stepLimitViolations = (step: ProtocolStep, telemetry: TelemetryData, channels: TelemetryChannel[]): string[] =>
+  step.telemetryLimits.flatMap(limit => {
+    const channel = channels.find(c => c.id === limit.channel);
+    const value = telemetry[limit.channel];
+    if (!channel || value === undefined) return [];
+    const reading = `${channel.label} ${formatChannelValue(channel, value)}${channel.unit ? ` ${channel.unit}` : ''}`;
+    if (limit.min !== undefined && value < limit.min) return [`${reading} is below the step minimum of ${limit.min}`];
+    if (limit.max !== undefined && value > limit.max) return [`${reading} is above the step maximum of ${limit.max}`];
+    return [];
+  });
+
+export const formatStepForPrompt = (
+  protocol: Protocol,
+  index: number,
+  telemetry: TelemetryData,
+  channels: TelemetryChannel[]
+): string => {
+  const step = protocol.steps[index];
+  const limits = describeStepLimits(step, channels);
+  const violations = stepLimitViolations(step, telemetry, channels);
+  const next = protocol.steps[index + 1];
+  return [
+    formatStepLabel(protocol, index),
+    `Expected observation: ${step.expectedObservation || 'not specified'}`,
+    `Telemetry limits: ${limits.length > 0 ? limits.join('; ') : 'none'}`,
+    ...(violations.length > 0 ? [`Out of limits: ${violations.join('; ')}`] : []),
+    `Success criteria: ${step.successCriteria || 'not specified'}`,
+    next ? `Next step: ${next.title}` : 'This is the final step.',
+    'Set stepComplete to true only when the success criteria are visibly met.',
+  ].join('\n');
+};
+
+// Replaces the "Current State:" line of a plain-text context, or appends one
+export const withCurrentState = (context: string, state: string): string => {
+  const line = `Current State: ${state}`;
+  if (/^Current State:.*$/m.test(context)) return context.replace(/^Current State:.*$/m, line);
+  return context ? `${context.replace(/\s+$/, '')}\n${line}` : line;
+};
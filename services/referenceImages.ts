@@ -0,0 +1,52 @@
+import { ReferenceImage } from "../types";
+import { REFERENCES_STORE, openDb, promisify, transactionDone } from "./db";
+
+// Each reference is one more image per request; older ones beyond this are not sent
+export const MAX_REFERENCES_SENT = 3;
+
+export const createReferenceId = (): string => `ref-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const listReferences = async (experimentId: string): Promise<ReferenceImage[]> => {
+  const db = await openDb();
+  const references = await promisify(
+    db.transaction(REFERENCES_STORE, 'readonly').objectStore(REFERENCES_STORE).index('experimentId').getAll(experimentId)
+  ) as ReferenceImage[];
+  return references.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveReferences = async (references: ReferenceImage[]): Promise<void> => {
+  if (references.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(REFERENCES_STORE, 'readwrite');
+  const store = tx.objectStore(REFERENCES_STORE);
+  references.forEach(reference => store.put(reference));
+  await transactionDone(tx);
+};
+
+export const deleteReference = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(REFERENCES_STORE, 'readwrite');
+  tx.objectStore(REFERENCES_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const copyReferences = async (fromId: string, toId: string): Promise<void> => {
+  const now = Date.now();
+  const references = await listReferences(fromId);
+  await saveReferences(references.map((reference, i) => ({
+    ...reference,
+    id: createReferenceId(),
+    experimentId: toId,
+    // Keep the original order
+    createdAt: now + i,
+  })));
+};
+
+export const deleteReferences = async (experimentId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(REFERENCES_STORE, 'readwrite');
+  const store = tx.objectStore(REFERENCES_STORE);
+  const keys = await promisify(store.index('experimentId').getAllKeys(experimentId));
+  keys.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
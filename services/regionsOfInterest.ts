@@ -0,0 +1,42 @@
+import { NormalizedRect, RegionOfInterest } from "../types";
+
+const STORAGE_KEY = 'bioreason.regionsOfInterest';
+
+// Margin kept around the union of all regions when cropping, as a fraction of the frame
+export const ROI_CROP_PADDING = 0.05;
+
+export const ROI_COLORS = ['#10b981', '#f59e0b', '#3b82f6', '#ec4899', '#8b5cf6', '#06b6d4'];
+
+export const createRegionId = (): string => `roi-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const readStoredRegions = (): Record<string, RegionOfInterest[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn("Ignoring unreadable regions of interest in storage", e);
+    return {};
+  }
+};
+
+export const loadRegions = (experimentId: string): RegionOfInterest[] =>
+  readStoredRegions()[experimentId] || [];
+
+export const saveRegions = (experimentId: string, regions: RegionOfInterest[]) => {
+  const stored = readStoredRegions();
+  stored[experimentId] = regions;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+// Normalized rectangle covering every region plus padding, clamped to the frame
+export const regionsBounds = (regions: RegionOfInterest[], padding = ROI_CROP_PADDING): NormalizedRect => {
+  const left = Math.max(0, Math.min(...regions.map(r => r.x)) - padding);
+  const top = Math.max(0, Math.min(...regions.map(r => r.y)) - padding);
+  const right = Math.min(1, Math.max(...regions.map(r => r.x + r.width)) + padding);
+  const bottom = Math.min(1, Math.max(...regions.map(r => r.y + r.height)) + padding);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+// Text block appended to the experiment context when regions are in use
+export const formatRegionsForPrompt = (regions: RegionOfInterest[]): string =>
+  `The image is cropped to the bench area of interest. Labelled boxes mark: ${regions.map(r => `"${r.name}"`).join(', ')}. ` +
+  `Focus the analysis on these regions and refer to them by name; ignore people and objects outside them.`;
@@ -0,0 +1,263 @@
+import { ExperimentStatus, HistoryItem, TelemetryChannel } from "../types";
+import { createThumbnail } from "./imageUtils";
+import { formatChannelValue } from "./telemetryChannels";
+
+export interface TelemetryStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface AlertEpisode {
+  start: number;
+  end: number;
+  peakStatus: ExperimentStatus;
+  entries: HistoryItem[];
+}
+
+export interface ReportInput {
+  sessionName: string;
+  context: string;
+  providerLabel: string;
+  channels: TelemetryChannel[];
+  history: HistoryItem[];
+}
+
+export const computeTelemetryStats = (
+  history: HistoryItem[],
+  channelId: string
+): TelemetryStats | null => {
+  const values = history
+    .map(item => item.telemetry[channelId])
+    .filter((value): value is number => value !== undefined);
+  if (values.length === 0) return null;
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+  };
+};
+
+// Groups consecutive non-NORMAL entries into episodes
+export const findAlertEpisodes = (history: HistoryItem[]): AlertEpisode[] => {
+  const episodes: AlertEpisode[] = [];
+  let current: AlertEpisode | null = null;
+
+  history.forEach(item => {
+    const status = item.analysis.status;
+    // Failed responses say nothing about the experiment; they neither open nor close an episode
+    if (status === ExperimentStatus.INVALID) return;
+    if (status === ExperimentStatus.NORMAL) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { start: item.timestamp, end: item.timestamp, peakStatus: status, entries: [] };
+      episodes.push(current);
+    }
+    current.end = item.timestamp;
+    current.entries.push(item);
+    if (status === ExperimentStatus.CRITICAL) current.peakStatus = ExperimentStatus.CRITICAL;
+  });
+
+  return episodes;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const STATUS_COLORS: Record<ExperimentStatus, string> = {
+  [ExperimentStatus.NORMAL]: '#10b981',
+  [ExperimentStatus.WARNING]: '#f59e0b',
+  [ExperimentStatus.CRITICAL]: '#f43f5e',
+  [ExperimentStatus.INVALID]: '#94a3b8',
+};
+
+// INVALID entries have no position on the status axis
+const STATUS_VALUES: Partial<Record<ExperimentStatus, number>> = {
+  [ExperimentStatus.NORMAL]: 0,
+  [ExperimentStatus.WARNING]: 1,
+  [ExperimentStatus.CRITICAL]: 2,
+};
+
+const renderTrendChart = (history: HistoryItem[]): string => {
+  if (history.length < 2) {
+    return '<p class="muted">Not enough data points for a trend chart.</p>';
+  }
+
+  const width = 1000;
+  const height = 160;
+  const padding = 24;
+  const minTime = history[0].timestamp;
+  const timeRange = history[history.length - 1].timestamp - minTime || 1;
+  const x = (t: number) => padding + ((t - minTime) / timeRange) * (width - 2 * padding);
+  const y = (v: number) => height - padding - (v / 2) * (height - 2 * padding);
+
+  const scored = history.filter(item => STATUS_VALUES[item.analysis.status] !== undefined);
+  const path = scored
+    .map((item, i) => `${i === 0 ? 'M' : 'L'} ${x(item.timestamp).toFixed(1)} ${y(STATUS_VALUES[item.analysis.status]!).toFixed(1)}`)
+    .join(' ');
+
+  const gridLines = [0, 1, 2].map(v =>
+    `<line x1="${padding}" y1="${y(v)}" x2="${width - padding}" y2="${y(v)}" stroke="#e2e8f0" stroke-dasharray="4 4" />` +
+    `<text x="${padding - 4}" y="${y(v) + 3}" font-size="9" text-anchor="end" fill="#94a3b8">${['N', 'W', 'C'][v]}</text>`
+  ).join('');
+
+  const points = scored.map(item =>
+    `<circle cx="${x(item.timestamp).toFixed(1)}" cy="${y(STATUS_VALUES[item.analysis.status]!).toFixed(1)}" r="4" fill="${STATUS_COLORS[item.analysis.status] || '#94a3b8'}" stroke="white" stroke-width="2" />`
+  ).join('');
+
+  const invalidMarkers = history
+    .filter(item => item.analysis.status === ExperimentStatus.INVALID)
+    .map(item =>
+      `<line x1="${x(item.timestamp).toFixed(1)}" y1="${padding}" x2="${x(item.timestamp).toFixed(1)}" y2="${height - padding}" stroke="${STATUS_COLORS[ExperimentStatus.INVALID]}" stroke-dasharray="2 3" />`
+    ).join('');
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="160">${gridLines}${invalidMarkers}<path d="${path}" fill="none" stroke="#10b981" stroke-width="3" />${points}</svg>`;
+};
+
+const renderStatsRow = (channel: TelemetryChannel, stats: TelemetryStats | null) => {
+  const label = escapeHtml(channel.label);
+  const unit = escapeHtml(channel.unit);
+  // One extra decimal place so the mean is not rounded to the display precision
+  const digits = channel.precision + 1;
+  return stats
+    ? `<tr><td>${label}</td><td>${stats.min.toFixed(digits)} ${unit}</td><td>${stats.max.toFixed(digits)} ${unit}</td><td>${stats.mean.toFixed(digits)} ${unit}</td></tr>`
+    : `<tr><td>${label}</td><td colspan="3" class="muted">No data</td></tr>`;
+};
+
+const renderTelemetrySnapshot = (channels: TelemetryChannel[], item: HistoryItem) =>
+  channels
+    .map(channel => `${formatChannelValue(channel, item.telemetry[channel.id])} ${escapeHtml(channel.unit)}`)
+    .join(' · ');
+
+const REPORT_STYLES = `
+  body { font-family: Inter, -apple-system, 'Segoe UI', sans-serif; color: #0f172a; margin: 0; padding: 32px; max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; margin-top: 32px; }
+  .muted { color: #94a3b8; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 6px; padding: 12px; white-space: pre-wrap; font-size: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  th { color: #64748b; font-weight: 600; font-size: 11px; text-transform: uppercase; }
+  .badge { display: inline-block; font-size: 10px; font-weight: 700; padding: 2px 6px; border-radius: 4px; color: white; }
+  .entry { display: flex; gap: 16px; padding: 12px 0; border-bottom: 1px solid #f1f5f9; page-break-inside: avoid; }
+  .entry img { width: 180px; border-radius: 6px; border: 1px solid #e2e8f0; object-fit: cover; flex-shrink: 0; }
+  .entry p { margin: 4px 0; font-size: 13px; }
+  .label { font-weight: 600; color: #475569; }
+  .toolbar { position: sticky; top: 0; background: white; padding: 8px 0; text-align: right; }
+  .toolbar button { font: inherit; font-size: 13px; padding: 6px 14px; border-radius: 6px; border: 1px solid #cbd5e1; background: #0f172a; color: white; cursor: pointer; }
+  @media print { .toolbar { display: none; } body { padding: 0; } }
+`;
+
+export const buildReportHtml = async ({ sessionName, context, providerLabel, channels, history }: ReportInput): Promise<string> => {
+  const generatedAt = new Date();
+  const episodes = findAlertEpisodes(history);
+  const thumbnails = await Promise.all(
+    history.map(item => {
+      const image = item.frame || item.thumbnail;
+      return image ? createThumbnail(image) : Promise.resolve(null);
+    })
+  );
+
+  const episodeRows = episodes.length === 0
+    ? '<p class="muted">No WARNING or CRITICAL episodes were recorded.</p>'
+    : `<table>
+        <thead><tr><th>Start</th><th>End</th><th>Duration</th><th>Peak</th><th>Entries</th><th>First observation</th></tr></thead>
+        <tbody>${episodes.map(ep => `
+          <tr>
+            <td>${formatTime(ep.start)}</td>
+            <td>${formatTime(ep.end)}</td>
+            <td>${formatDuration(ep.end - ep.start)}</td>
+            <td><span class="badge" style="background:${STATUS_COLORS[ep.peakStatus]}">${ep.peakStatus}</span></td>
+            <td>${ep.entries.length}</td>
+            <td>${escapeHtml(ep.entries[0].analysis.observation)}</td>
+          </tr>`).join('')}
+        </tbody>
+      </table>`;
+
+  const entries = history.map((item, i) => `
+    <div class="entry">
+      ${thumbnails[i] ? `<img src="${thumbnails[i]}" alt="Frame at ${formatTime(item.timestamp)}" />` : ''}
+      <div>
+        <p>
+          <span class="badge" style="background:${STATUS_COLORS[item.analysis.status] || '#94a3b8'}">${escapeHtml(String(item.analysis.status))}</span>
+          <strong>${formatTime(item.timestamp)}</strong>
+          <span class="muted">${renderTelemetrySnapshot(channels, item)}</span>
+        </p>
+        <p><span class="label">Observation:</span> ${escapeHtml(item.analysis.observation)}</p>
+        <p><span class="label">Deduction:</span> ${escapeHtml(item.analysis.deduction)}</p>
+        <p><span class="label">Recommendation:</span> ${escapeHtml(item.analysis.recommendation)}</p>
+      </div>
+    </div>`).join('');
+
+  const timeSpan = history.length > 0
+    ? `${new Date(history[0].timestamp).toLocaleString()} – ${new Date(history[history.length - 1].timestamp).toLocaleString()}`
+    : 'No analyses recorded';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(sessionName)} – BioReason Lab Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <div class="toolbar"><button onclick="window.print()">Print / Save as PDF</button></div>
+  <h1>${escapeHtml(sessionName)}</h1>
+  <p class="muted">BioReason Lab Report · Generated ${generatedAt.toLocaleString()} · Model: ${escapeHtml(providerLabel)}</p>
+  <p class="muted">${timeSpan} · ${history.length} analyses</p>
+
+  <h2>Experiment Context</h2>
+  <pre>${escapeHtml(context || 'No context provided.')}</pre>
+
+  <h2>Telemetry Summary</h2>
+  <table>
+    <thead><tr><th>Channel</th><th>Min</th><th>Max</th><th>Mean</th></tr></thead>
+    <tbody>
+      ${channels.map(channel => renderStatsRow(channel, computeTelemetryStats(history, channel.id))).join('')}
+    </tbody>
+  </table>
+
+  <h2>Status Trend</h2>
+  ${renderTrendChart(history)}
+
+  <h2>Warning &amp; Critical Episodes</h2>
+  ${episodeRows}
+
+  <h2>Analysis Log</h2>
+  ${entries || '<p class="muted">No analyses recorded.</p>'}
+
+  <p class="muted" style="margin-top:32px;font-size:11px">AI recommendations should be verified by human personnel.</p>
+</body>
+</html>`;
+};
+
+// Opens the report in a new tab. The window is opened synchronously so the
+// click that triggered it is not treated as a popup.
+export const openReportWindow = async (input: ReportInput): Promise<void> => {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error("Unable to open the report window. Please allow pop-ups for this site.");
+  }
+  win.document.write('<p style="font-family:sans-serif;color:#64748b">Generating report…</p>');
+  const html = await buildReportHtml(input);
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+};
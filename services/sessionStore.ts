@@ -0,0 +1,73 @@
+import { HistoryItem, SessionRecord } from "../types";
+import { ENTRIES_STORE, SESSIONS_STORE, openDb, promisify, transactionDone } from "./db";
+
+interface EntryRecord extends HistoryItem {
+  sessionId: string;
+}
+
+export const createSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDb();
+  const sessions = await promisify(
+    db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).getAll()
+  ) as SessionRecord[];
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<{ session: SessionRecord; history: HistoryItem[] } | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readonly');
+  const session = await promisify(tx.objectStore(SESSIONS_STORE).get(id)) as SessionRecord | undefined;
+  if (!session) return null;
+
+  const entries = await promisify(
+    tx.objectStore(ENTRIES_STORE).index('sessionId').getAll(id)
+  ) as EntryRecord[];
+
+  const history = entries
+    .map(({ sessionId, ...item }) => item)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return { session, history };
+};
+
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  tx.objectStore(SESSIONS_STORE).put(session);
+  await transactionDone(tx);
+};
+
+export const putEntries = async (sessionId: string, items: HistoryItem[]): Promise<void> => {
+  if (items.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+  const store = tx.objectStore(ENTRIES_STORE);
+  items.forEach(item => store.put({ ...item, sessionId } as EntryRecord));
+  await transactionDone(tx);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  const session = await promisify(store.get(id)) as SessionRecord | undefined;
+  if (session) {
+    store.put({ ...session, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  const keys = await promisify(tx.objectStore(ENTRIES_STORE).index('sessionId').getAllKeys(id));
+  const entries = tx.objectStore(ENTRIES_STORE);
+  keys.forEach(key => entries.delete(key));
+  await transactionDone(tx);
+};
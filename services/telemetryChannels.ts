@@ -0,0 +1,83 @@
+import { TelemetryChannel, TelemetryData } from "../types";
+
+// Every channel the app knows how to display, simulate, alarm on and export.
+// Experiments declare which of these they use by id.
+export const CHANNEL_REGISTRY: Record<string, TelemetryChannel> = {
+  temperature: {
+    id: 'temperature', label: 'Temperature', unit: '°C', precision: 1,
+    expectedRange: { min: 15, max: 40 }, nominal: 24.5, noise: 0.2, color: '#3b82f6',
+  },
+  pressure: {
+    id: 'pressure', label: 'Pressure', unit: 'kPa', precision: 1,
+    expectedRange: { min: 95, max: 110 }, nominal: 101.3, noise: 0.1, color: '#8b5cf6',
+  },
+  ph: {
+    id: 'ph', label: 'pH', unit: 'pH', precision: 2,
+    expectedRange: { min: 0, max: 14 }, nominal: 7, noise: 0.02, color: '#ec4899',
+  },
+  dissolvedOxygen: {
+    id: 'dissolvedOxygen', label: 'Dissolved O₂', unit: 'mg/L', precision: 2,
+    expectedRange: { min: 4, max: 12 }, nominal: 8.2, noise: 0.05, color: '#06b6d4',
+  },
+  stirrerRpm: {
+    id: 'stirrerRpm', label: 'Stirrer', unit: 'RPM', precision: 0,
+    expectedRange: { min: 0, max: 1500 }, nominal: 300, noise: 4, color: '#f97316',
+  },
+  humidity: {
+    id: 'humidity', label: 'Humidity', unit: '%RH', precision: 1,
+    expectedRange: { min: 20, max: 70 }, nominal: 45, noise: 0.3, color: '#14b8a6',
+  },
+  flowRate: {
+    id: 'flowRate', label: 'Flow Rate', unit: 'L/min', precision: 2,
+    expectedRange: { min: 0, max: 5 }, nominal: 1.2, noise: 0.02, color: '#84cc16',
+  },
+};
+
+export const DEFAULT_CHANNEL_IDS = ['temperature', 'pressure'];
+
+// Placeholder for ids that are not in the registry (e.g. from an imported run)
+const unknownChannel = (id: string): TelemetryChannel => ({
+  id, label: id, unit: '', precision: 2,
+  expectedRange: { min: -Infinity, max: Infinity }, nominal: 0, noise: 0, color: '#94a3b8',
+});
+
+export const getChannel = (id: string): TelemetryChannel => CHANNEL_REGISTRY[id] || unknownChannel(id);
+
+export const resolveChannels = (ids: string[]): TelemetryChannel[] => ids.map(getChannel);
+
+export const formatChannelValue = (channel: TelemetryChannel, value: number | undefined): string =>
+  value === undefined || !Number.isFinite(value) ? '—' : value.toFixed(channel.precision);
+
+export const isOutOfRange = (channel: TelemetryChannel, value: number | undefined): boolean =>
+  value !== undefined && (value < channel.expectedRange.min || value > channel.expectedRange.max);
+
+// Fills in nominal values for channels that have no reading yet
+export const withChannelDefaults = (data: TelemetryData, channels: TelemetryChannel[]): TelemetryData => {
+  const missing = channels.filter(channel => data[channel.id] === undefined);
+  if (missing.length === 0) return data;
+  const next = { ...data };
+  missing.forEach(channel => { next[channel.id] = channel.nominal; });
+  return next;
+};
+
+// Readings for just the given channels, e.g. for a history snapshot
+export const snapshotTelemetry = (data: TelemetryData, channels: TelemetryChannel[]): TelemetryData => {
+  const snapshot: TelemetryData = {};
+  channels.forEach(channel => {
+    if (data[channel.id] !== undefined) snapshot[channel.id] = data[channel.id];
+  });
+  return snapshot;
+};
+
+// Channels recorded in a snapshot, in the order they were active
+export const snapshotChannels = (snapshot: TelemetryData): TelemetryChannel[] =>
+  resolveChannels(Object.keys(snapshot));
+
+export const initialTelemetry = (ids: string[] = DEFAULT_CHANNEL_IDS): TelemetryData =>
+  withChannelDefaults({}, resolveChannels(ids));
+
+// Text block appended to the experiment context for the model
+export const formatTelemetryForPrompt = (data: TelemetryData, channels: TelemetryChannel[]): string =>
+  channels
+    .map(channel => `${channel.label}: ${formatChannelValue(channel, data[channel.id])} ${channel.unit}`.trimEnd())
+    .join('\n');
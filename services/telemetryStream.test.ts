@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { normalizeSampleTimestamp, parseTelemetryMessage } from './telemetryStream';
+
+const NOW = 1_700_000_000_000;
+
+describe('normalizeSampleTimestamp', () => {
+  it('accepts epoch milliseconds near now', () => {
+    expect(normalizeSampleTimestamp(NOW - 2000, NOW)).toBe(NOW - 2000);
+  });
+
+  it('reads epoch seconds as milliseconds', () => {
+    expect(normalizeSampleTimestamp(NOW / 1000 - 2, NOW)).toBe(NOW - 2000);
+  });
+
+  it('rejects clocks far ahead of or behind the local one', () => {
+    expect(normalizeSampleTimestamp(NOW + 60 * 60_000, NOW)).toBeNull();
+    expect(normalizeSampleTimestamp(NOW - 60 * 60_000, NOW)).toBeNull();
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(normalizeSampleTimestamp('2023-11-14', NOW)).toBeNull();
+    expect(normalizeSampleTimestamp(undefined, NOW)).toBeNull();
+  });
+});
+
+describe('parseTelemetryMessage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads registered channels and ignores other keys', () => {
+    expect(parseTelemetryMessage('{"temperature": 25.1, "ph": "7", "voltage": 3, "timestamp": 1700000000}')).toEqual({
+      update: { temperature: 25.1 },
+      timestamp: NOW,
+    });
+  });
+
+  it('falls back to the arrival time for an implausible timestamp', () => {
+    expect(parseTelemetryMessage('{"pressure": 101, "timestamp": 5}')!.timestamp).toBe(NOW);
+  });
+
+  it.each(['not json', '[1, 2]', '{"voltage": 3}', 'null'])('returns null for %s', raw => {
+    expect(parseTelemetryMessage(raw)).toBeNull();
+  });
+});
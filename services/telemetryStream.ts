@@ -0,0 +1,104 @@
+import { TelemetryData } from "../types";
+import { errorMessage } from "./analysisErrors";
+import { CHANNEL_REGISTRY } from "./telemetryChannels";
+
+export type StreamStatus = 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export interface TelemetryStreamOptions {
+  url: string;
+  onSample: (update: TelemetryData, timestamp: number) => void;
+  onStatus: (status: StreamStatus, detail?: string) => void;
+}
+
+export interface TelemetryStream {
+  close: () => void;
+}
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+// Gateway timestamps further than this from the local clock are ignored
+const MAX_CLOCK_SKEW_MS = 10 * 60_000;
+
+// Reads a gateway timestamp given in epoch milliseconds or seconds. Returns
+// null when it is missing or too far from `now` to trust.
+export const normalizeSampleTimestamp = (value: unknown, now: number): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  // Epoch seconds stay below 1e11 until the year 5138
+  const ms = value < 1e11 ? value * 1000 : value;
+  return Math.abs(ms - now) <= MAX_CLOCK_SKEW_MS ? ms : null;
+};
+
+// Accepts messages such as {"temperature": 25.1, "ph": 7.02, "timestamp": 1700000000000}.
+// Any numeric field named after a registered channel is read; other keys are
+// ignored. Returns null for messages that carry no usable reading. The
+// timestamp is when the gateway measured the sample, or the arrival time when
+// it sent none or an implausible one.
+export const parseTelemetryMessage = (raw: string): { update: TelemetryData; timestamp: number } | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const data = parsed as Record<string, unknown>;
+
+  const update: TelemetryData = {};
+  Object.keys(CHANNEL_REGISTRY).forEach(id => {
+    const value = data[id];
+    if (typeof value === 'number' && Number.isFinite(value)) update[id] = value;
+  });
+  if (Object.keys(update).length === 0) return null;
+
+  const now = Date.now();
+  return { update, timestamp: normalizeSampleTimestamp(data.timestamp, now) ?? now };
+};
+
+// Opens a WebSocket to a sensor gateway and keeps it open, reconnecting with
+// exponential backoff until close() is called.
+export const connectTelemetryStream = ({ url, onSample, onStatus }: TelemetryStreamOptions): TelemetryStream => {
+  let socket: WebSocket | null = null;
+  let retryDelay = INITIAL_RETRY_MS;
+  let retryTimer: number | null = null;
+  let closed = false;
+
+  const connect = () => {
+    onStatus(retryDelay === INITIAL_RETRY_MS ? 'CONNECTING' : 'RECONNECTING');
+    try {
+      socket = new WebSocket(url);
+    } catch (err: unknown) {
+      onStatus('CLOSED', errorMessage(err, 'Invalid stream URL.'));
+      return;
+    }
+
+    socket.onopen = () => {
+      retryDelay = INITIAL_RETRY_MS;
+      onStatus('OPEN');
+    };
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return;
+      const parsed = parseTelemetryMessage(event.data);
+      if (parsed) onSample(parsed.update, parsed.timestamp);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus('RECONNECTING', `Retrying in ${Math.round(retryDelay / 1000)}s`);
+      retryTimer = window.setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    };
+  };
+
+  connect();
+
+  return {
+    close: () => {
+      closed = true;
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      if (socket) socket.close();
+      onStatus('CLOSED');
+    },
+  };
+};
@@ -0,0 +1,105 @@
+import { ExperimentStatus, HistoryItem } from "../types";
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// A visible window of the trend chart. A live window stays pinned to the
+// newest entry as the history grows.
+export interface ChartView extends TimeRange {
+  live: boolean;
+}
+
+export interface StatusBand extends TimeRange {
+  status: ExperimentStatus.WARNING | ExperimentStatus.CRITICAL;
+}
+
+// Narrowest window the chart zooms into
+export const MIN_VIEW_SPAN_MS = 5000;
+
+const TIME_STEPS_MS = [
+  1000, 2000, 5000, 10000, 15000, 30000,
+  60000, 120000, 300000, 600000, 900000, 1800000,
+  3600000, 7200000, 10800000, 21600000, 43200000, 86400000,
+];
+
+export const historyBounds = (history: HistoryItem[]): TimeRange =>
+  history.length === 0
+    ? { start: 0, end: 0 }
+    : { start: history[0].timestamp, end: history[history.length - 1].timestamp };
+
+// Keeps a window inside the history and no narrower than MIN_VIEW_SPAN_MS
+export const clampView = (view: TimeRange, bounds: TimeRange): ChartView => {
+  const fullSpan = bounds.end - bounds.start;
+  const span = Math.min(Math.max(view.end - view.start, Math.min(MIN_VIEW_SPAN_MS, fullSpan)), fullSpan);
+  const start = Math.min(Math.max(view.start, bounds.start), bounds.end - span);
+  return { start, end: start + span, live: start + span >= bounds.end };
+};
+
+// factor < 1 zooms in; the time under the cursor stays put
+export const zoomView = (view: TimeRange, factor: number, anchor: number, bounds: TimeRange): ChartView => {
+  const span = view.end - view.start;
+  const nextSpan = span * factor;
+  const start = anchor - (anchor - view.start) * (nextSpan / span);
+  return clampView({ start, end: start + nextSpan }, bounds);
+};
+
+export const panView = (view: TimeRange, deltaMs: number, bounds: TimeRange): ChartView =>
+  clampView({ start: view.start + deltaMs, end: view.end + deltaMs }, bounds);
+
+// Runs of WARNING or CRITICAL entries; each entry's status lasts until the next entry
+export const statusBands = (history: HistoryItem[]): StatusBand[] => {
+  const bands: StatusBand[] = [];
+  history.forEach((item, i) => {
+    const { status } = item.analysis;
+    if (status !== ExperimentStatus.WARNING && status !== ExperimentStatus.CRITICAL) return;
+    const end = i < history.length - 1 ? history[i + 1].timestamp : item.timestamp;
+    const last = bands[bands.length - 1];
+    if (last && last.status === status && last.end === item.timestamp) {
+      last.end = end;
+    } else {
+      bands.push({ start: item.timestamp, end, status });
+    }
+  });
+  return bands;
+};
+
+// Index of the entry closest in time; history is sorted by timestamp
+export const nearestEntryIndex = (history: HistoryItem[], time: number): number => {
+  if (history.length === 0) return -1;
+  let lo = 0;
+  let hi = history.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (history[mid].timestamp < time) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo > 0 && time - history[lo - 1].timestamp < history[lo].timestamp - time) return lo - 1;
+  return lo;
+};
+
+// Round values (1, 2 or 5 times a power of ten) covering [min, max]
+export const valueTicks = (min: number, max: number, count = 4): number[] => {
+  if (!(max > min)) return [min];
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= rough)!;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(Number(v.toFixed(10)));
+  }
+  return ticks;
+};
+
+// Evenly spaced times at a round step, counted from `origin`
+// (the epoch for wall-clock time, the start of the video for a scan)
+export const timeTicks = (range: TimeRange, count = 6, origin = 0): number[] => {
+  const rough = (range.end - range.start) / count;
+  const step = TIME_STEPS_MS.find(s => s >= rough) || TIME_STEPS_MS[TIME_STEPS_MS.length - 1];
+  const ticks: number[] = [];
+  for (let t = origin + Math.ceil((range.start - origin) / step) * step; t <= range.end; t += step) {
+    ticks.push(t);
+  }
+  return ticks;
+};
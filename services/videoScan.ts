@@ -0,0 +1,53 @@
+// Offline scan of an uploaded video: the file is sought to evenly spaced
+// moments and each sampled frame is analyzed in turn.
+
+export const SCAN_STEP_OPTIONS = [1, 2, 5, 10, 30, 60];
+export const DEFAULT_SCAN_STEP = 5;
+
+// Seeking can stall on files the browser cannot decode at that position
+const SEEK_TIMEOUT_MS = 10_000;
+
+// Sample times in seconds, always including the first frame
+export const scanTimes = (duration: number, step: number): number[] => {
+  if (!Number.isFinite(duration) || duration <= 0 || step <= 0) return [];
+  const times: number[] = [];
+  for (let t = 0; t < duration; t += step) {
+    times.push(Math.round(t * 1000) / 1000);
+  }
+  return times;
+};
+
+// Resolves once the frame at `time` is ready to be drawn
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("The video could not be read at this position."));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Seeking to ${formatVideoTime(time)} timed out.`));
+    }, SEEK_TIMEOUT_MS);
+
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+
+// 75.4 -> "1:15", 3725 -> "1:02:05"
+export const formatVideoTime = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
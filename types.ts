@@ -1,7 +1,37 @@
 export enum ExperimentStatus {
   NORMAL = 'NORMAL',
   WARNING = 'WARNING',
-  CRITICAL = 'CRITICAL'
+  CRITICAL = 'CRITICAL',
+  // Recorded locally when a model response failed validation; never produced by the model
+  INVALID = 'INVALID'
+}
+
+export type HazardCategory = 'THERMAL' | 'PRESSURE' | 'TOXIC_GAS' | 'FIRE' | 'SPILL';
+
+export type HazardSeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface Hazard {
+  category: HazardCategory;
+  severity: HazardSeverity;
+  description: string;
+}
+
+// A property that can be compared between analyses, e.g. color "amber" or phase "solid"
+export interface Measurement {
+  property: string;
+  value: string;
+  unit?: string;
+  // Where in the frame it was read, e.g. "flask bottom"
+  location?: string;
+}
+
+// Labelled box, or point when width/height are absent, normalized to the analyzed frame
+export interface Annotation {
+  label: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
 }
 
 export interface AnalysisResult {
@@ -9,23 +39,347 @@ export interface AnalysisResult {
   observation: string;
   deduction: string;
   recommendation: string;
+  // The structured fields below are absent on results recorded before they existed
+  // Model's confidence in the status, 0..1
+  confidence?: number;
+  hazards?: Hazard[];
+  measurements?: Measurement[];
+  // Locations of anomalies in the analyzed (latest) frame
+  annotations?: Annotation[];
+  // Only when a protocol step was given: whether its success criteria are met
+  stepComplete?: boolean;
+  // Only when reference images were sent: how the latest frame matches or deviates from them
+  comparison?: string;
 }
 
 export type ThinkingLevel = 'LOW' | 'HIGH';
 
+export type AnalysisErrorKind = 'AUTH' | 'RATE_LIMIT' | 'SAFETY' | 'TIMEOUT' | 'MALFORMED_RESPONSE' | 'NETWORK' | 'UNKNOWN';
+
+// What the error panel needs to explain a failed analysis
+export interface AnalysisErrorInfo {
+  kind: AnalysisErrorKind;
+  message: string;
+  suggestion: string;
+  retryable: boolean;
+}
+
 export interface AnalysisState {
   isLoading: boolean;
   result: AnalysisResult | null;
-  error: string | null;
+  error: AnalysisErrorInfo | null;
 }
 
-export interface TelemetryData {
-  temperature: number;
-  pressure: number;
+export interface TelemetryChannel {
+  id: string;
+  label: string;
+  unit: string;
+  // Decimal places used for display and in the prompt
+  precision: number;
+  expectedRange: { min: number; max: number };
+  // Starting value for simulation and manual entry
+  nominal: number;
+  // Amplitude of the random drift per second in SIMULATED mode
+  noise: number;
+  color: string;
+}
+
+// Current reading per channel, keyed by TelemetryChannel.id
+export type TelemetryData = Record<string, number>;
+
+export type AlarmSeverity = ExperimentStatus.WARNING | ExperimentStatus.CRITICAL;
+
+// ABOVE/BELOW compare the value itself; RATE compares its change per minute
+export type AlarmRuleKind = 'ABOVE' | 'BELOW' | 'RATE';
+
+export interface AlarmRule {
+  id: string;
+  channel: string;
+  kind: AlarmRuleKind;
+  threshold: number;
+  // Distance back past the threshold required before an active alarm clears
+  hysteresis: number;
+  severity: AlarmSeverity;
+  enabled: boolean;
+}
+
+export interface TelemetryAlarm {
+  ruleId: string;
+  channel: string;
+  severity: AlarmSeverity;
+  message: string;
+  value: number;
+  raisedAt: number;
+}
+
+export interface AlarmEvent {
+  type: 'RAISED' | 'CLEARED';
+  alarm: TelemetryAlarm;
+  timestamp: number;
 }
 
 export interface HistoryItem {
   timestamp: number;
   telemetry: TelemetryData;
   analysis: AnalysisResult;
-}
\ No newline at end of file
+  // Data URL of the frame that was sent to the model
+  frame?: string;
+  // Small JPEG of the same frame for lists; kept even when the full frame is not
+  thumbnail?: string;
+  // Context, telemetry and step text the frame was analyzed with
+  prompt?: string;
+  // Unparsed model output, kept for INVALID entries
+  rawResponse?: string;
+  // Part of the source image the stored frame was cropped to; absent when uncropped
+  frameBounds?: NormalizedRect;
+  // Protocol step in progress when the frame was analyzed
+  protocolStep?: { index: number; title: string };
+  // Seconds into the uploaded video, for entries recorded by a video scan
+  videoTime?: number;
+}
+
+// Versioned interchange format for sharing a run between people and tools
+export interface HistoryExport {
+  schema: 'bioreason.history';
+  version: number;
+  exportedAt: string;
+  session: {
+    name: string;
+    context: string;
+    channels: string[];
+  };
+  entries: HistoryItem[];
+}
+
+export type IncidentEventType = 'RAISED' | 'ESCALATED' | 'ACKNOWLEDGED';
+
+export interface IncidentEvent {
+  type: IncidentEventType;
+  timestamp: number;
+  // Escalation level reached, for ESCALATED events
+  level?: number;
+  // Who acknowledged and what they said, for ACKNOWLEDGED events
+  by?: string;
+  comment?: string;
+}
+
+// A CRITICAL result that has to be acknowledged by a named person
+export interface Incident {
+  id: string;
+  // History entry that raised the incident
+  entryTimestamp: number;
+  observation: string;
+  recommendation: string;
+  // 0 until the first escalation
+  level: number;
+  events: IncidentEvent[];
+}
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  experimentId?: string;
+  channels?: string[];
+  context: string;
+  thinkingLevel: ThinkingLevel;
+  telemetry: TelemetryData;
+  entryCount: number;
+  lastStatus: ExperimentStatus | null;
+  chats?: ChatTranscript[];
+  // Index into the experiment's protocol steps
+  currentStep?: number;
+  incidents?: Incident[];
+}
+
+export type ChatRole = 'user' | 'model';
+
+export interface ChatMessage {
+  role: ChatRole;
+  text: string;
+  timestamp: number;
+  // Data URL of a frame the scientist attached to this message
+  frame?: string;
+}
+
+// Follow-up conversation about one history entry
+export interface ChatTranscript {
+  entryTimestamp: number;
+  messages: ChatMessage[];
+}
+
+// User-managed experiment library entry; the reference image is stored locally as a data URL
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  description: string;
+  context: string;
+  imageUrl: string;
+  // Telemetry channel ids; defaults to temperature and pressure
+  channels?: string[];
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Library entry as written to a bundle, with its reference images inlined
+export interface LibraryBundleEntry extends LibraryEntry {
+  references?: { label: string; dataUrl: string }[];
+}
+
+// Shareable bundle of library entries
+export interface LibraryExport {
+  schema: 'bioreason.library';
+  version: number;
+  exportedAt: string;
+  entries: LibraryBundleEntry[];
+}
+
+// "Expected state" image the live frame is compared against, stored per experiment
+export interface ReferenceImage {
+  id: string;
+  experimentId: string;
+  label: string;
+  dataUrl: string;
+  createdAt: number;
+}
+
+// A reference image as sent to the model
+export interface ReferenceFrame {
+  label: string;
+  // Base64 JPEG data without the data URL prefix
+  base64: string;
+}
+
+export interface Reactant {
+  name: string;
+  // e.g. 0.1M
+  concentration?: string;
+  // e.g. 25 mL
+  amount?: string;
+}
+
+// Form view of the plain-text experiment context
+export interface ExperimentContext {
+  title: string;
+  reactants: Reactant[];
+  indicator: string;
+  conditions: string;
+  expected: string;
+  hazards: string;
+  currentState: string;
+  // Lines that belong to no field, kept verbatim
+  notes: string;
+}
+
+// Acceptable range for one channel during a protocol step; either bound may be omitted
+export interface StepTelemetryLimit {
+  channel: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ProtocolStep {
+  id: string;
+  title: string;
+  expectedObservation: string;
+  successCriteria: string;
+  telemetryLimits: StepTelemetryLimit[];
+}
+
+// Ordered steps of an experiment, stored per experiment like alarm rules
+export interface Protocol {
+  steps: ProtocolStep[];
+  // Advance as soon as the model judges the current step complete, instead of suggesting it
+  autoAdvance: boolean;
+}
+
+export type ProviderId = 'GEMINI' | 'LOCAL' | 'MOCK';
+
+export interface ProviderSettings {
+  id: ProviderId;
+  // OpenAI-compatible endpoint (e.g. Ollama at http://localhost:11434/v1)
+  localEndpoint: string;
+  localModel: string;
+}
+
+// Rectangle in coordinates normalized to 0..1 from the top-left of an image
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Named rectangle on the source frame
+export interface RegionOfInterest extends NormalizedRect {
+  id: string;
+  name: string;
+}
+
+// Gate for auto-monitoring: only call the model when the scene or telemetry changed
+export interface ChangeDetectionSettings {
+  enabled: boolean;
+  // Mean absolute luminance difference (0..1) that counts as a visual change
+  visualThreshold: number;
+  // Change in any channel, as a fraction of its expected range
+  telemetryThreshold: number;
+  // Analyze anyway once the last analysis is this old
+  maxStalenessMs: number;
+}
+
+// Auto-monitoring interval currently in effect and why it differs from the base
+export interface MonitoringCadence {
+  intervalMs: number;
+  reason: string;
+}
+
+// Multi-frame capture settings for video sources
+export interface TemporalSettings {
+  frameCount: number;
+  frameSpacingMs: number;
+}
+
+export interface AnalysisFrame {
+  // Base64 JPEG data without the data URL prefix
+  base64: string;
+  capturedAt: number;
+}
+
+export interface AnalysisRequest {
+  context: string;
+  // Chronological order; the last frame is the most recent
+  frames: AnalysisFrame[];
+  thinkingLevel: ThinkingLevel;
+  // Aborted when the request is cancelled or superseded
+  signal?: AbortSignal;
+  // Expected-state images to compare the latest frame against
+  references?: ReferenceFrame[];
+}
+
+export interface ChatTurn {
+  role: ChatRole;
+  text: string;
+  // Base64 JPEG data without the data URL prefix
+  image?: string;
+}
+
+export interface ChatRequest {
+  // Experiment context, telemetry and the analysis being discussed
+  grounding: string;
+  // The analyzed frame, base64 JPEG
+  image?: string;
+  // Chronological; the last turn is the scientist's new question
+  turns: ChatTurn[];
+  thinkingLevel: ThinkingLevel;
+  signal?: AbortSignal;
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  analyze: (request: AnalysisRequest, settings: ProviderSettings) => Promise<AnalysisResult>;
+  // Free-text answer to a follow-up question about an analysis
+  chat: (request: ChatRequest, settings: ProviderSettings) => Promise<string>;
+}